@@ -6,6 +6,14 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { NovelProvider } from "@/contexts/NovelContext";
 import { Library } from "@/components/Library";
 import { NovelDashboard } from "@/components/NovelDashboard";
+import { CharacterDetail } from "@/components/CharacterDetail";
+import { PlaceDetail } from "@/components/PlaceDetail";
+import { NoteEditor } from "@/components/NoteEditor";
+import { ChapterDetail } from "@/components/ChapterDetail";
+import { FactionDetail } from "@/components/FactionDetail";
+import { ItemDetail } from "@/components/ItemDetail";
+import { CustomEntityDetail } from "@/components/CustomEntityDetail";
+import { CommandPalette } from "@/components/CommandPalette";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,9 +25,17 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
+          <CommandPalette />
           <Routes>
             <Route path="/" element={<Library />} />
             <Route path="/novel/:id" element={<NovelDashboard />} />
+            <Route path="/novel/:id/character/:characterId" element={<CharacterDetail />} />
+            <Route path="/novel/:id/place/:placeId" element={<PlaceDetail />} />
+            <Route path="/novel/:id/note/:noteId" element={<NoteEditor />} />
+            <Route path="/novel/:id/chapter/:chapterId" element={<ChapterDetail />} />
+            <Route path="/novel/:id/faction/:factionId" element={<FactionDetail />} />
+            <Route path="/novel/:id/item/:itemId" element={<ItemDetail />} />
+            <Route path="/novel/:id/entity/:entityId" element={<CustomEntityDetail />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
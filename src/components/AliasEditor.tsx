@@ -0,0 +1,79 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ALIAS_TYPES } from '@/lib/aliases';
+import { AliasType, CharacterAlias } from '@/types/novel';
+
+interface AliasEditorProps {
+  value: CharacterAlias[];
+  onChange: (aliases: CharacterAlias[]) => void;
+}
+
+// Radix Select can't use an empty string as an item value
+const NO_TYPE = 'none';
+
+export const AliasEditor: React.FC<AliasEditorProps> = ({ value, onChange }) => {
+  const update = (index: number, patch: Partial<CharacterAlias>) => {
+    onChange(value.map((alias, i) => (i === index ? { ...alias, ...patch } : alias)));
+  };
+
+  const remove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((alias, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 sm:flex-nowrap">
+          <Input
+            value={alias.name}
+            onChange={(e) => update(index, { name: e.target.value })}
+            placeholder="e.g., Maedre"
+            className="flex-1 min-w-[10rem]"
+          />
+          <Select
+            value={alias.type ?? NO_TYPE}
+            onValueChange={(v) => update(index, { type: v === NO_TYPE ? undefined : (v as AliasType) })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TYPE}>No type</SelectItem>
+              {ALIAS_TYPES.map((t) => (
+                <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={alias.language ?? ''}
+            onChange={(e) => update(index, { language: e.target.value || undefined })}
+            placeholder="Language"
+            className="w-28"
+          />
+          <Button type="button" variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={() => remove(index)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => onChange([...value, { name: '' }])}
+      >
+        <Plus className="h-4 w-4" />
+        Add Alias
+      </Button>
+    </div>
+  );
+};
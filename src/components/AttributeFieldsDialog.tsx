@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { CustomFieldsEditor } from '@/components/CustomFieldsEditor';
+import { useNovel } from '@/contexts/NovelContext';
+import {
+  ATTRIBUTE_FIELD_TYPES,
+  FieldDraft,
+  fromFieldDraft,
+  getFieldsError,
+  toFieldDraft,
+} from '@/lib/customEntities';
+import { toast } from 'sonner';
+
+interface AttributeFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: 'character' | 'place';
+}
+
+export const AttributeFieldsDialog: React.FC<AttributeFieldsDialogProps> = ({ open, onOpenChange, target }) => {
+  const { currentNovel, updateNovel } = useNovel();
+  const [fields, setFields] = useState<FieldDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const key = target === 'character' ? 'characterFields' : 'placeFields';
+  const saved = currentNovel?.[key];
+
+  // Load the form whenever the dialog opens
+  useEffect(() => {
+    if (open) setFields((saved ?? []).map(toFieldDraft));
+  }, [open, saved]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentNovel) return;
+
+    const cleaned = fields.map(fromFieldDraft);
+    const error = getFieldsError(cleaned);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await updateNovel(currentNovel.id, { [key]: cleaned });
+      toast.success('Fields saved');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to save fields');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {target === 'character' ? 'Character Fields' : 'Place Fields'}
+          </DialogTitle>
+          <DialogDescription>
+            {target === 'character'
+              ? 'Track extra details on every character, like age, rank or whether they can use magic.'
+              : 'Track extra details on every place, like population, climate or ruler.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="max-h-[60vh] overflow-y-auto py-4 pr-1">
+            <CustomFieldsEditor
+              value={fields}
+              onChange={setFields}
+              fieldTypes={ATTRIBUTE_FIELD_TYPES}
+              emptyText="No fields yet."
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useEffect, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { ChapterInput } from '@/components/ChapterInput';
+import { EntityLinkPicker } from '@/components/EntityLinkPicker';
+import { useNovel } from '@/contexts/NovelContext';
+import { toCharacterOption } from '@/lib/aliases';
+import { formatChapterNumber } from '@/lib/chapters';
+import { toast } from 'sonner';
+
+const chapterSchema = z.object({
+  number: z.number({ required_error: 'Chapter number is required' }).int().min(1, 'Chapter must be 1 or later'),
+  volume: z.number().int().min(1, 'Volume must be 1 or later').optional(),
+  title: z.string().trim(),
+  summary: z.string(),
+  characterIds: z.array(z.string()),
+  placeIds: z.array(z.string()),
+});
+
+type ChapterFormValues = z.infer<typeof chapterSchema>;
+
+export const ChapterDetail: React.FC = () => {
+  const { id, chapterId } = useParams<{ id: string; chapterId: string }>();
+  const navigate = useNavigate();
+  const { currentNovel, selectNovel, characters, places, chapters, updateChapter, deleteChapter } = useNovel();
+  const chapter = chapters.find(c => c.id === chapterId);
+
+  const form = useForm<ChapterFormValues>({
+    resolver: zodResolver(chapterSchema),
+    defaultValues: {
+      number: 1,
+      volume: undefined,
+      title: '',
+      summary: '',
+      characterIds: [],
+      placeIds: [],
+    },
+  });
+
+  useEffect(() => {
+    if (id) selectNovel(id);
+    return () => { selectNovel(null); };
+  }, [id, selectNovel]);
+
+  const loadedId = useRef<string>();
+  useEffect(() => {
+    if (!chapter || loadedId.current === chapter.id) return;
+    loadedId.current = chapter.id;
+    form.reset({
+      number: chapter.number,
+      volume: chapter.volume,
+      title: chapter.title,
+      summary: chapter.summary,
+      characterIds: chapter.characterIds,
+      placeIds: chapter.placeIds,
+    });
+  }, [chapter, form]);
+
+  if (!currentNovel || !chapter) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  const onSubmit = async (values: ChapterFormValues) => {
+    const duplicate = chapters.find(c =>
+      c.id !== chapter.id && c.number === values.number && c.volume === values.volume
+    );
+    if (duplicate) {
+      form.setError('number', { message: `${formatChapterNumber(duplicate)} already exists` });
+      return;
+    }
+
+    try {
+      // Spell out the volume so clearing the field also clears it in storage
+      await updateChapter(chapter.id, { ...values, volume: values.volume });
+      form.reset(values);
+      toast.success('Chapter saved');
+    } catch (error) {
+      toast.error('Failed to save chapter');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete ${formatChapterNumber(chapter)}? This cannot be undone.`)) {
+      await deleteChapter(chapter.id);
+      toast.success('Chapter deleted');
+      navigate(`/novel/${currentNovel.id}?tab=chapters`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+        <div className="container flex h-16 items-center gap-4 px-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/novel/${currentNovel.id}?tab=chapters`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-display font-bold truncate">
+              {chapter.title || formatChapterNumber(chapter)}
+            </h1>
+            <p className="text-sm text-muted-foreground truncate">
+              {chapter.title ? `${formatChapterNumber(chapter)} · ` : ''}{currentNovel.title}
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={handleDelete} className="text-destructive">
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container max-w-3xl px-4 py-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-4">
+                  <FormField
+                    control={form.control}
+                    name="number"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Chapter *</FormLabel>
+                        <FormControl>
+                          <ChapterInput value={field.value} onChange={field.onChange} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="volume"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Volume</FormLabel>
+                        <FormControl>
+                          <ChapterInput value={field.value} onChange={field.onChange} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Title</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., A Place for Demons to Hide" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="summary"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Summary</FormLabel>
+                      <FormControl>
+                        <Textarea rows={8} placeholder="What happens in this chapter?" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Appearances</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="characterIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Characters</FormLabel>
+                      <EntityLinkPicker
+                        options={characters.map(toCharacterOption)}
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Add character"
+                        emptyText="No characters found."
+                      />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="placeIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Places</FormLabel>
+                      <EntityLinkPicker
+                        options={places.map(p => ({ id: p.id, name: p.name }))}
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Add place"
+                        emptyText="No places found."
+                      />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!form.formState.isDirty || form.formState.isSubmitting} className="gap-2">
+                <Save className="h-4 w-4" />
+                {form.formState.isSubmitting ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </main>
+    </div>
+  );
+};
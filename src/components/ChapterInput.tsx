@@ -0,0 +1,29 @@
+import * as React from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface ChapterInputProps extends Omit<React.ComponentProps<typeof Input>, 'value' | 'onChange' | 'type'> {
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+}
+
+// Number input for an optional chapter; an empty field means "not set"
+export const ChapterInput = React.forwardRef<HTMLInputElement, ChapterInputProps>(
+  ({ value, onChange, className, ...props }, ref) => (
+    <Input
+      ref={ref}
+      type="number"
+      min={1}
+      inputMode="numeric"
+      placeholder="Not set"
+      value={value ?? ''}
+      onChange={(e) => {
+        const parsed = parseInt(e.target.value, 10);
+        onChange(Number.isNaN(parsed) ? undefined : parsed);
+      }}
+      className={cn('w-32', className)}
+      {...props}
+    />
+  )
+);
+ChapterInput.displayName = 'ChapterInput';
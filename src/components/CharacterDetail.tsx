@@ -0,0 +1,432 @@
+import React, { useEffect, useRef } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { CharacterRelationships } from '@/components/CharacterRelationships';
+import { EntityLinkPicker } from '@/components/EntityLinkPicker';
+import { ImageGallery } from '@/components/ImageGallery';
+import { TagToggleList } from '@/components/TagBadge';
+import { AliasEditor } from '@/components/AliasEditor';
+import { ChapterInput } from '@/components/ChapterInput';
+import { StatusHistoryEditor } from '@/components/StatusHistoryEditor';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { useNovel } from '@/contexts/NovelContext';
+import { formatChapterNumber, getAppearances } from '@/lib/chapters';
+import { getStatusAt, getStatusLabel, sortStatusHistory } from '@/lib/characterStatus';
+import { cleanCustomValues } from '@/lib/customEntities';
+import { formatMembership, getCharacterMemberships } from '@/lib/factions';
+import { getCurrentChapter, getCurrentOwners, getHeldItems } from '@/lib/items';
+import { isSpoiler } from '@/lib/spoilers';
+import { sortTags } from '@/lib/tags';
+import { CharacterAlias, CharacterStatusChange, CustomFieldValue, ImageCaptions } from '@/types/novel';
+import { toast } from 'sonner';
+
+const characterSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string(),
+  aliases: z.array(z.custom<CharacterAlias>()),
+  tags: z.array(z.string()),
+  attributes: z.record(z.custom<CustomFieldValue>()),
+  statusHistory: z.array(z.custom<CharacterStatusChange>()),
+  introducedInChapter: z.number().int().min(1, 'Chapter must be 1 or later').optional(),
+  linkedPlaceIds: z.array(z.string()),
+});
+
+type CharacterFormValues = z.infer<typeof characterSchema>;
+
+export const CharacterDetail: React.FC = () => {
+  const { id, characterId } = useParams<{ id: string; characterId: string }>();
+  const navigate = useNavigate();
+  const {
+    currentNovel,
+    selectNovel,
+    characters,
+    places,
+    tags,
+    chapters,
+    factions,
+    items,
+    updateCharacter,
+    deleteCharacter,
+  } = useNovel();
+  const character = characters.find(c => c.id === characterId);
+
+  const form = useForm<CharacterFormValues>({
+    resolver: zodResolver(characterSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      aliases: [],
+      tags: [],
+      attributes: {},
+      statusHistory: [],
+      introducedInChapter: undefined,
+      linkedPlaceIds: [],
+    },
+  });
+
+  useEffect(() => {
+    if (id) selectNovel(id);
+    return () => { selectNovel(null); };
+  }, [id, selectNovel]);
+
+  // Reset the form only when a different character is loaded so that
+  // image uploads (which update the record) don't discard unsaved edits.
+  const loadedId = useRef<string>();
+  useEffect(() => {
+    if (!character || loadedId.current === character.id) return;
+    loadedId.current = character.id;
+    form.reset({
+      name: character.name,
+      description: character.description,
+      aliases: character.aliases ?? [],
+      tags: character.tags,
+      attributes: character.attributes ?? {},
+      statusHistory: character.statusHistory ?? [],
+      introducedInChapter: character.introducedInChapter,
+      linkedPlaceIds: character.linkedPlaceIds,
+    });
+  }, [character, form]);
+
+  if (!currentNovel || !character) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  const attributeFields = currentNovel.characterFields ?? [];
+
+  const onSubmit = async (values: CharacterFormValues) => {
+    // Blank alias rows are dropped rather than treated as errors
+    const cleaned = {
+      ...values,
+      aliases: values.aliases
+        .map(a => ({ ...a, name: a.name.trim(), language: a.language?.trim() || undefined }))
+        .filter(a => a.name),
+      attributes: cleanCustomValues(values.attributes, attributeFields),
+      statusHistory: sortStatusHistory(values.statusHistory)
+        .map(s => ({ ...s, note: s.note?.trim() || undefined })),
+    };
+    try {
+      // Spell out the chapter so clearing the field also clears it in storage
+      await updateCharacter(character.id, { ...cleaned, introducedInChapter: cleaned.introducedInChapter });
+      form.reset(cleaned);
+      toast.success('Character saved');
+    } catch (error) {
+      toast.error('Failed to save character');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete ${character.name}? This cannot be undone.`)) {
+      await deleteCharacter(character.id);
+      toast.success('Character deleted');
+      navigate(`/novel/${currentNovel.id}`);
+    }
+  };
+
+  const handleImagesChange = async (images: string[]) => {
+    await updateCharacter(character.id, { images });
+  };
+
+  const handleCaptionsChange = async (captions: ImageCaptions) => {
+    await updateCharacter(character.id, { captions });
+  };
+
+  const appearances = getAppearances(chapters, 'character', character.id);
+  const memberships = getCharacterMemberships(factions, character.id);
+  const currentChapter = getCurrentChapter(currentNovel);
+  const currentStatus = getStatusAt(character, currentChapter);
+  const heldItems = getHeldItems(items, character.id, currentChapter)
+    .filter(item => !isSpoiler(currentNovel, item.introducedInChapter));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+        <div className="container flex h-16 items-center gap-4 px-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/novel/${currentNovel.id}`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-display font-bold truncate">{character.name}</h1>
+            <p className="text-sm text-muted-foreground truncate">{currentNovel.title}</p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={handleDelete} className="text-destructive">
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container max-w-3xl px-4 py-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Kvothe" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="aliases"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Also known as</FormLabel>
+                      <AliasEditor value={field.value} onChange={field.onChange} />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea rows={6} placeholder="Who are they? What have they done?" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags</FormLabel>
+                      <TagToggleList tags={sortTags(tags)} value={field.value} onChange={field.onChange} />
+                    </FormItem>
+                  )}
+                />
+                {attributeFields.map((attribute) => (
+                  <FormField
+                    key={attribute.id}
+                    control={form.control}
+                    name={`attributes.${attribute.id}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{attribute.name}</FormLabel>
+                        <FormControl>
+                          <CustomFieldInput field={attribute} value={field.value} onChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                <FormField
+                  control={form.control}
+                  name="introducedInChapter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Introduced in chapter</FormLabel>
+                      <FormControl>
+                        <ChapterInput value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-lg">Status</CardTitle>
+                {currentStatus && (
+                  <Badge variant={currentStatus.status === 'dead' ? 'secondary' : 'outline'}>
+                    {getStatusLabel(currentStatus.status)}
+                    {currentChapter !== undefined && ` as of Ch. ${currentChapter}`}
+                  </Badge>
+                )}
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="statusHistory"
+                  render={({ field }) => (
+                    <FormItem>
+                      <StatusHistoryEditor value={field.value} onChange={field.onChange} />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Connections</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="linkedPlaceIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Places</FormLabel>
+                      <EntityLinkPicker
+                        options={places.map(p => ({ id: p.id, name: p.name }))}
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Link place"
+                        emptyText="No places found."
+                      />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!form.formState.isDirty || form.formState.isSubmitting} className="gap-2">
+                <Save className="h-4 w-4" />
+                {form.formState.isSubmitting ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        <Card className="mt-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Relationships</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CharacterRelationships character={character} />
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Factions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {memberships.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Not a member of any faction. Add members from a faction's page.
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {memberships.map(({ faction, member }) => (
+                  <li key={faction.id}>
+                    <Link
+                      to={`/novel/${currentNovel.id}/faction/${faction.id}`}
+                      className="flex items-baseline justify-between gap-3 py-2 text-sm hover:text-primary"
+                    >
+                      <span className="truncate font-medium">{faction.name}</span>
+                      {formatMembership(member) && (
+                        <span className="shrink-0 text-muted-foreground">{formatMembership(member)}</span>
+                      )}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Currently Held Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {heldItems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Not holding any items. Record owners from an item's page.
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {heldItems.map((item) => {
+                  const acquired = getCurrentOwners(item, currentChapter)
+                    .find(o => o.characterId === character.id)?.acquiredInChapter;
+                  return (
+                    <li key={item.id}>
+                      <Link
+                        to={`/novel/${currentNovel.id}/item/${item.id}`}
+                        className="flex items-baseline justify-between gap-3 py-2 text-sm hover:text-primary"
+                      >
+                        <span className="truncate font-medium">{item.name}</span>
+                        {acquired !== undefined && (
+                          <span className="shrink-0 text-muted-foreground">Since Ch. {acquired}</span>
+                        )}
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Chapter Appearances</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {appearances.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Not listed in any chapter yet. Add appearances from the Chapters tab.
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {appearances.map((chapter) => (
+                  <li key={chapter.id}>
+                    <Link
+                      to={`/novel/${currentNovel.id}/chapter/${chapter.id}`}
+                      className="flex items-baseline gap-3 py-2 text-sm hover:text-primary"
+                    >
+                      <span className="w-28 shrink-0 text-muted-foreground">{formatChapterNumber(chapter)}</span>
+                      <span className="truncate">{chapter.title || 'Untitled'}</span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Images</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ImageGallery
+              imageIds={character.images}
+              onChange={handleImagesChange}
+              captions={character.captions}
+              onCaptionsChange={handleCaptionsChange}
+            />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
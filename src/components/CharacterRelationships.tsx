@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeftRight, ArrowRight, Edit, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useNovel } from '@/contexts/NovelContext';
+import { RELATIONSHIP_TYPES, describeRelationship, getRelationshipTypeInfo } from '@/lib/relationships';
+import { Character, Relationship, RelationshipType } from '@/types/novel';
+import { toast } from 'sonner';
+
+interface CharacterRelationshipsProps {
+  character: Character;
+}
+
+export const CharacterRelationships: React.FC<CharacterRelationshipsProps> = ({ character }) => {
+  const navigate = useNavigate();
+  const { characters, relationships, deleteRelationship } = useNovel();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Relationship | null>(null);
+
+  const own = relationships.filter(r => r.sourceId === character.id || r.targetId === character.id);
+  const nameOf = (id: string) => characters.find(c => c.id === id)?.name ?? 'Unknown';
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (relationship: Relationship) => {
+    setEditing(relationship);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (relationship: Relationship) => {
+    if (confirm('Remove this relationship?')) {
+      await deleteRelationship(relationship.id);
+      toast.success('Relationship removed');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {own.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No relationships yet</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {own.map((rel) => {
+            const { phrase, otherId, incoming } = describeRelationship(rel, character.id);
+            return (
+              <li key={rel.id} className="flex items-start gap-3 p-3">
+                <div className="mt-0.5 text-muted-foreground">
+                  {rel.directional ? <ArrowRight className="h-4 w-4" /> : <ArrowLeftRight className="h-4 w-4" />}
+                </div>
+                <div className="flex-1 min-w-0 text-sm">
+                  <p>
+                    {incoming ? (
+                      <>
+                        <RelatedName name={nameOf(otherId)} onClick={() => navigate(`/novel/${character.novelId}/character/${otherId}`)} />
+                        {' '}<span className="text-muted-foreground">{phrase.toLowerCase()}</span>{' '}
+                        {character.name}
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-muted-foreground">{phrase}</span>{' '}
+                        <RelatedName name={nameOf(otherId)} onClick={() => navigate(`/novel/${character.novelId}/character/${otherId}`)} />
+                      </>
+                    )}
+                  </p>
+                  {rel.notes && <p className="mt-1 text-muted-foreground line-clamp-2">{rel.notes}</p>}
+                </div>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(rel)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(rel)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={openCreate}
+        disabled={characters.length < 2}
+        className="gap-2"
+      >
+        <Plus className="h-4 w-4" />
+        Add Relationship
+      </Button>
+      <RelationshipDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        character={character}
+        relationship={editing}
+      />
+    </div>
+  );
+};
+
+const RelatedName: React.FC<{ name: string; onClick: () => void }> = ({ name, onClick }) => (
+  <button type="button" onClick={onClick} className="font-medium text-primary hover:underline">
+    {name}
+  </button>
+);
+
+interface RelationshipDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  character: Character;
+  relationship: Relationship | null;
+}
+
+const RelationshipDialog: React.FC<RelationshipDialogProps> = ({
+  open,
+  onOpenChange,
+  character,
+  relationship,
+}) => {
+  const { characters, createRelationship, updateRelationship } = useNovel();
+  const [otherId, setOtherId] = useState('');
+  const [type, setType] = useState<RelationshipType>('related');
+  const [label, setLabel] = useState('');
+  const [directional, setDirectional] = useState(false);
+  const [reversed, setReversed] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Load the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    if (relationship) {
+      const isSource = relationship.sourceId === character.id;
+      setOtherId(isSource ? relationship.targetId : relationship.sourceId);
+      setType(relationship.type);
+      setLabel(relationship.label ?? '');
+      setDirectional(relationship.directional);
+      setReversed(!isSource);
+      setNotes(relationship.notes);
+    } else {
+      setOtherId('');
+      setType('related');
+      setLabel('');
+      setDirectional(false);
+      setReversed(false);
+      setNotes('');
+    }
+  }, [open, relationship, character.id]);
+
+  const handleTypeChange = (value: RelationshipType) => {
+    setType(value);
+    setDirectional(getRelationshipTypeInfo(value).directional);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!otherId) return;
+
+    const data = {
+      novelId: character.novelId,
+      sourceId: reversed ? otherId : character.id,
+      targetId: reversed ? character.id : otherId,
+      type,
+      label: label.trim() || undefined,
+      directional,
+      notes: notes.trim(),
+    };
+
+    setLoading(true);
+    try {
+      if (relationship) {
+        await updateRelationship(relationship.id, data);
+      } else {
+        await createRelationship(data);
+      }
+      toast.success('Relationship saved');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to save relationship');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const others = characters.filter(c => c.id !== character.id);
+  const otherName = others.find(c => c.id === otherId)?.name ?? '…';
+  const phrase = label.trim() || getRelationshipTypeInfo(type).label;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {relationship ? 'Edit Relationship' : 'Add Relationship'}
+          </DialogTitle>
+          <DialogDescription>
+            Describe how {character.name} relates to another character.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Character *</Label>
+              <Select value={otherId} onValueChange={setOtherId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a character" />
+                </SelectTrigger>
+                <SelectContent>
+                  {others.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(v) => handleTypeChange(v as RelationshipType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RELATIONSHIP_TYPES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="relationship-label">Label (optional)</Label>
+              <Input
+                id="relationship-label"
+                placeholder="e.g., Sworn brother of"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="relationship-directional">Directional</Label>
+                <p className="text-xs text-muted-foreground">
+                  {directional
+                    ? reversed
+                      ? `${otherName} ${phrase.toLowerCase()} ${character.name}`
+                      : `${character.name} ${phrase.toLowerCase()} ${otherName}`
+                    : 'Applies equally both ways'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {directional && (
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setReversed(r => !r)}>
+                    <ArrowLeftRight className="h-4 w-4" />
+                  </Button>
+                )}
+                <Switch id="relationship-directional" checked={directional} onCheckedChange={setDirectional} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="relationship-notes">Notes</Label>
+              <Textarea
+                id="relationship-notes"
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!otherId || loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BookOpen, FileText, MapPin, Users } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useNovel } from '@/contexts/NovelContext';
+import { searchDB } from '@/lib/database';
+import { getSearchResultPath, searchLibrary } from '@/lib/search';
+import { SearchLibrary, SearchResultType } from '@/types/novel';
+import { toast } from 'sonner';
+
+const RESULT_ICONS: Record<SearchResultType, React.ElementType> = {
+  novel: BookOpen,
+  character: Users,
+  place: MapPin,
+  note: FileText,
+};
+
+// Library-wide search, opened with Ctrl/Cmd-K from anywhere in the app
+export const CommandPalette: React.FC = () => {
+  const navigate = useNavigate();
+  const { novels } = useNovel();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [library, setLibrary] = useState<SearchLibrary | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(o => !o);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Read a fresh copy of the library each time the palette opens
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    searchDB.getLibrary()
+      .then(setLibrary)
+      .catch(() => toast.error('Failed to load the library for search'));
+  }, [open]);
+
+  const results = useMemo(() => (library ? searchLibrary(library, query) : []), [library, query]);
+
+  const go = (path: string) => {
+    setOpen(false);
+    navigate(path);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-xl">
+        <DialogTitle className="sr-only">Search library</DialogTitle>
+        {/* Results are ranked by lib/search, so cmdk's own filtering is off */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2.5"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search novels, characters, places and notes..."
+          />
+          <CommandList className="max-h-[60vh]">
+            {query.trim() ? (
+              <>
+                <CommandEmpty>{library ? 'No matches.' : 'Loading...'}</CommandEmpty>
+                {results.length > 0 && (
+                  <CommandGroup heading="Results">
+                    {results.map((result) => {
+                      const Icon = RESULT_ICONS[result.type];
+                      return (
+                        <CommandItem
+                          key={`${result.type}-${result.id}`}
+                          value={`${result.type}-${result.id}`}
+                          onSelect={() => go(getSearchResultPath(result))}
+                          className="items-start gap-3"
+                        >
+                          <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-baseline gap-2">
+                              <span className="truncate font-medium">{result.title}</span>
+                              {result.matchedAlias && (
+                                <span className="truncate text-xs text-muted-foreground">aka {result.matchedAlias}</span>
+                              )}
+                              <span className="ml-auto shrink-0 text-xs text-muted-foreground">{result.subtitle}</span>
+                            </div>
+                            {result.snippet && (
+                              <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+                                {result.snippet.before}
+                                {result.snippet.match && (
+                                  <mark className="rounded-sm bg-primary/20 px-0.5 text-foreground">{result.snippet.match}</mark>
+                                )}
+                                {result.snippet.after}
+                              </p>
+                            )}
+                          </div>
+                        </CommandItem>
+                      );
+                    })}
+                  </CommandGroup>
+                )}
+              </>
+            ) : (
+              <>
+                <CommandEmpty>Your library is empty.</CommandEmpty>
+                {novels.length > 0 && (
+                  <CommandGroup heading="Novels">
+                    {novels.map((novel) => (
+                      <CommandItem
+                        key={novel.id}
+                        value={`novel-${novel.id}`}
+                        onSelect={() => go(`/novel/${novel.id}`)}
+                        className="gap-3"
+                      >
+                        <BookOpen className="h-4 w-4 text-muted-foreground" />
+                        <span className="truncate">{novel.title}</span>
+                        {novel.author && (
+                          <span className="ml-auto shrink-0 text-xs text-muted-foreground">by {novel.author}</span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+              </>
+            )}
+          </CommandList>
+          <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+            <kbd className="rounded border bg-muted px-1.5 font-mono">↵</kbd> to open ·{' '}
+            <kbd className="rounded border bg-muted px-1.5 font-mono">Esc</kbd> to close
+          </div>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
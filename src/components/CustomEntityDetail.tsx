@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChapterInput } from '@/components/ChapterInput';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { useNovel } from '@/contexts/NovelContext';
+import { cleanCustomValues, getCustomLinkOptions, getCustomTab } from '@/lib/customEntities';
+import { CustomFieldValue, ImageCaptions } from '@/types/novel';
+import { toast } from 'sonner';
+
+export const CustomEntityDetail: React.FC = () => {
+  const { id, entityId } = useParams<{ id: string; entityId: string }>();
+  const navigate = useNavigate();
+  const {
+    currentNovel,
+    selectNovel,
+    characters,
+    places,
+    factions,
+    items,
+    customTypes,
+    customEntities,
+    updateCustomEntity,
+    deleteCustomEntity,
+  } = useNovel();
+  const entity = customEntities.find(e => e.id === entityId);
+  const type = customTypes.find(t => t.id === entity?.typeId);
+
+  const [name, setName] = useState('');
+  const [chapter, setChapter] = useState<number | undefined>();
+  const [values, setValues] = useState<Record<string, CustomFieldValue>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (id) selectNovel(id);
+    return () => { selectNovel(null); };
+  }, [id, selectNovel]);
+
+  const loadedId = useRef<string>();
+  useEffect(() => {
+    if (!entity || loadedId.current === entity.id) return;
+    loadedId.current = entity.id;
+    setName(entity.name);
+    setChapter(entity.introducedInChapter);
+    setValues(entity.values);
+  }, [entity]);
+
+  if (!currentNovel || !entity || !type) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  // Image fields save as soon as they change, so they are left out here
+  const formFields = type.fields.filter(f => f.type !== 'image');
+  const imageFields = type.fields.filter(f => f.type === 'image');
+  const isDirty = name !== entity.name
+    || chapter !== entity.introducedInChapter
+    || formFields.some(f => JSON.stringify(values[f.id]) !== JSON.stringify(entity.values[f.id]));
+
+  const backPath = `/novel/${currentNovel.id}?tab=${getCustomTab(type.id)}`;
+  const linkSources = { characters, places, factions, items, customEntities: customEntities.filter(e => e.id !== entity.id) };
+
+  const setValue = (fieldId: string, value: CustomFieldValue | undefined) => {
+    setValues(prev => {
+      const next = { ...prev };
+      if (value === undefined) delete next[fieldId];
+      else next[fieldId] = value;
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Image values come from the stored entry; everything else from the form
+      const merged = { ...values };
+      imageFields.forEach(f => {
+        if (entity.values[f.id] !== undefined) merged[f.id] = entity.values[f.id];
+      });
+      const cleaned = cleanCustomValues(merged, type.fields);
+      await updateCustomEntity(entity.id, {
+        name: name.trim(),
+        introducedInChapter: chapter,
+        values: cleaned,
+      });
+      setName(name.trim());
+      setValues(cleaned);
+      toast.success(`${type.name} saved`);
+    } catch (error) {
+      toast.error(`Failed to save ${type.name.toLowerCase()}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete ${entity.name}? This cannot be undone.`)) {
+      await deleteCustomEntity(entity.id);
+      toast.success(`${type.name} deleted`);
+      navigate(backPath);
+    }
+  };
+
+  const handleImagesChange = (fieldId: string) => async (imageIds: string[]) => {
+    await updateCustomEntity(entity.id, { values: { ...entity.values, [fieldId]: imageIds } });
+    setValue(fieldId, imageIds);
+  };
+
+  const handleCaptionsChange = async (captions: ImageCaptions) => {
+    await updateCustomEntity(entity.id, { captions });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+        <div className="container flex h-16 items-center gap-4 px-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(backPath)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-display font-bold truncate">{entity.name}</h1>
+            <p className="text-sm text-muted-foreground truncate">{type.name} · {currentNovel.title}</p>
+          </div>
+          <Button onClick={handleSave} disabled={!isDirty || saving} className="gap-2">
+            <Save className="h-4 w-4" />
+            <span className="hidden sm:inline">{saving ? 'Saving...' : 'Save'}</span>
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleDelete} className="text-destructive">
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container max-w-3xl space-y-6 px-4 py-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="entity-name">Name *</Label>
+              <Input id="entity-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            {formFields.map((field) => (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={`entity-field-${field.id}`}>{field.name}</Label>
+                <CustomFieldInput
+                  id={`entity-field-${field.id}`}
+                  field={field}
+                  value={values[field.id]}
+                  onChange={(value) => setValue(field.id, value)}
+                  linkOptions={field.type === 'entity-link' ? getCustomLinkOptions(field, linkSources) : undefined}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="entity-chapter">Introduced in chapter</Label>
+              <ChapterInput id="entity-chapter" value={chapter} onChange={setChapter} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {imageFields.map((field) => (
+          <Card key={field.id}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">{field.name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CustomFieldInput
+                field={field}
+                value={entity.values[field.id]}
+                onChange={(value) => setValue(field.id, value)}
+                onImagesChange={handleImagesChange(field.id)}
+                captions={entity.captions}
+                onCaptionsChange={handleCaptionsChange}
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+};
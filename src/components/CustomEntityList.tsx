@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Blocks, Plus, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CustomTypeDialog } from '@/components/CustomTypeDialog';
+import { SpoilerShield } from '@/components/SpoilerShield';
+import { useNovel } from '@/contexts/NovelContext';
+import { formatCustomValue, getCustomLinkOptions } from '@/lib/customEntities';
+import { getSpoilerMode, isSpoiler } from '@/lib/spoilers';
+import { CustomEntityType, CustomFieldDef } from '@/types/novel';
+
+interface CustomEntityListProps {
+  type: CustomEntityType;
+  onTypeDeleted: () => void;
+}
+
+// Fields shown on a card; the rest are on the entry's page
+const CARD_FIELDS = 3;
+
+export const CustomEntityList: React.FC<CustomEntityListProps> = ({ type, onTypeDeleted }) => {
+  const navigate = useNavigate();
+  const { currentNovel, characters, places, factions, items, customEntities, createCustomEntity } = useNovel();
+  const [schemaOpen, setSchemaOpen] = useState(false);
+
+  if (!currentNovel) return null;
+
+  const entries = customEntities.filter(e => e.typeId === type.id);
+  const spoilerMode = getSpoilerMode(currentNovel);
+  const cardFields = type.fields.filter(f => f.type !== 'image').slice(0, CARD_FIELDS);
+  const linkSources = { characters, places, factions, items, customEntities };
+  const nameOf = (field: CustomFieldDef, id: string) =>
+    getCustomLinkOptions(field, linkSources).find(o => o.id === id)?.name;
+
+  const handleAdd = async () => {
+    const name = prompt(`${type.name} name:`);
+    if (name?.trim()) {
+      const entity = await createCustomEntity({
+        novelId: currentNovel.id,
+        typeId: type.id,
+        name: name.trim(),
+        values: {},
+      });
+      navigate(`/novel/${currentNovel.id}/entity/${entity.id}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setSchemaOpen(true)}>
+          <Settings2 className="h-4 w-4" />
+          Edit Fields
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="flex flex-col items-center py-16 text-center">
+          <div className="mb-4 rounded-full bg-primary/10 p-4">
+            <Blocks className="h-8 w-8 text-primary" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No {type.pluralName.toLowerCase()} yet</h3>
+          <p className="text-muted-foreground mb-4">Tap the + button to add your first entry</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {entries.map((entity) => (
+            <SpoilerShield
+              key={entity.id}
+              active={isSpoiler(currentNovel, entity.introducedInChapter)}
+              mode={spoilerMode}
+              chapter={entity.introducedInChapter}
+            >
+              <Card
+                variant="interactive"
+                onClick={() => navigate(`/novel/${currentNovel.id}/entity/${entity.id}`)}
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">{entity.name}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <dl className="space-y-1 text-sm">
+                    {cardFields.map((field) => {
+                      const text = formatCustomValue(field, entity.values[field.id], nameOf);
+                      return text && (
+                        <div key={field.id} className="flex gap-2">
+                          <dt className="shrink-0 text-muted-foreground">{field.name}:</dt>
+                          <dd className="truncate">{text}</dd>
+                        </div>
+                      );
+                    })}
+                  </dl>
+                </CardContent>
+              </Card>
+            </SpoilerShield>
+          ))}
+        </div>
+      )}
+
+      <Button variant="glow" className="fixed bottom-6 right-6 h-14 w-14 rounded-full" onClick={handleAdd}>
+        <Plus className="h-6 w-6" />
+      </Button>
+      <CustomTypeDialog open={schemaOpen} onOpenChange={setSchemaOpen} type={type} onDeleted={onTypeDeleted} />
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { EntityLinkPicker, LinkOption } from '@/components/EntityLinkPicker';
+import { ImageGallery } from '@/components/ImageGallery';
+import { getIdList } from '@/lib/customEntities';
+import { CustomFieldDef, CustomFieldValue, ImageCaptions } from '@/types/novel';
+
+interface CustomFieldInputProps {
+  id?: string;
+  field: CustomFieldDef;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue | undefined) => void;
+  linkOptions?: LinkOption[]; // entity-link
+  onImagesChange?: (imageIds: string[]) => Promise<void>; // image; galleries save straight away
+  captions?: ImageCaptions; // image
+  onCaptionsChange?: (captions: ImageCaptions) => Promise<void>; // image
+}
+
+// Radix Select can't use an empty string as an item value
+const NONE = 'none';
+
+export const CustomFieldInput: React.FC<CustomFieldInputProps> = ({
+  id,
+  field,
+  value,
+  onChange,
+  linkOptions = [],
+  onImagesChange,
+  captions,
+  onCaptionsChange,
+}) => {
+  switch (field.type) {
+    case 'number':
+      return (
+        <Input
+          id={id}
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => {
+            const parsed = parseFloat(e.target.value);
+            onChange(Number.isNaN(parsed) ? undefined : parsed);
+          }}
+        />
+      );
+    case 'date':
+      return (
+        <Input
+          id={id}
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className="w-48"
+        />
+      );
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' ? value : NONE}
+          onValueChange={(v) => onChange(v === NONE ? undefined : v)}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Not set</SelectItem>
+            {(field.options ?? []).map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'boolean':
+      return (
+        <Select
+          value={typeof value === 'boolean' ? String(value) : NONE}
+          onValueChange={(v) => onChange(v === NONE ? undefined : v === 'true')}
+        >
+          <SelectTrigger id={id} className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Not set</SelectItem>
+            <SelectItem value="true">Yes</SelectItem>
+            <SelectItem value="false">No</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case 'entity-link':
+      return (
+        <EntityLinkPicker
+          options={linkOptions}
+          value={getIdList(value)}
+          onChange={(ids) => onChange(ids)}
+          placeholder="Add link"
+        />
+      );
+    case 'image':
+      return (
+        <ImageGallery
+          imageIds={getIdList(value)}
+          onChange={onImagesChange ?? (async (ids) => onChange(ids))}
+          captions={captions}
+          onCaptionsChange={onCaptionsChange}
+        />
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+        />
+      );
+  }
+};
@@ -0,0 +1,140 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { generateId } from '@/lib/database';
+import { CUSTOM_LINK_TARGETS, FieldDraft } from '@/lib/customEntities';
+import { CustomEntityType, CustomFieldType } from '@/types/novel';
+
+// Link targets share one Select; other custom types are "custom:<id>"
+const CUSTOM_TARGET_PREFIX = 'custom:';
+
+interface CustomFieldsEditorProps {
+  value: FieldDraft[];
+  onChange: (fields: FieldDraft[]) => void;
+  fieldTypes: { value: CustomFieldType; label: string }[];
+  linkTypes?: CustomEntityType[]; // Custom types entity-link fields can point at
+  emptyText: string;
+}
+
+export const CustomFieldsEditor: React.FC<CustomFieldsEditorProps> = ({
+  value,
+  onChange,
+  fieldTypes,
+  linkTypes = [],
+  emptyText,
+}) => {
+  const updateField = (index: number, patch: Partial<FieldDraft>) => {
+    onChange(value.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  };
+
+  const moveField = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addField = () => {
+    onChange([...value, { id: generateId(), name: '', type: 'text', optionsText: '' }]);
+  };
+
+  const linkValue = (field: FieldDraft) =>
+    field.linkTarget === 'custom'
+      ? field.linkTypeId ? `${CUSTOM_TARGET_PREFIX}${field.linkTypeId}` : undefined
+      : field.linkTarget ?? 'character';
+
+  const setLinkValue = (index: number, target: string) => {
+    if (target.startsWith(CUSTOM_TARGET_PREFIX)) {
+      updateField(index, { linkTarget: 'custom', linkTypeId: target.slice(CUSTOM_TARGET_PREFIX.length) });
+    } else {
+      updateField(index, { linkTarget: target as FieldDraft['linkTarget'], linkTypeId: undefined });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {value.map((field, index) => (
+            <li key={field.id} className="space-y-2 p-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={field.name}
+                  onChange={(e) => updateField(index, { name: e.target.value })}
+                  placeholder="Field name"
+                  className="h-9 flex-1"
+                />
+                <Select
+                  value={field.type}
+                  onValueChange={(v) => updateField(index, { type: v as CustomFieldType })}
+                >
+                  <SelectTrigger className="h-9 w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fieldTypes.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveField(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveField(index, 1)} disabled={index === value.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {field.type === 'select' && (
+                <Input
+                  value={field.optionsText}
+                  onChange={(e) => updateField(index, { optionsText: e.target.value })}
+                  placeholder="Options, comma separated"
+                  className="h-9"
+                />
+              )}
+              {field.type === 'entity-link' && (
+                <Select value={linkValue(field)} onValueChange={(v) => setLinkValue(index, v)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Links to..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_LINK_TARGETS.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                    ))}
+                    {linkTypes.map((t) => (
+                      <SelectItem key={t.id} value={`${CUSTOM_TARGET_PREFIX}${t.id}`}>{t.pluralName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <Button type="button" variant="outline" size="sm" className="gap-2" onClick={addField}>
+        <Plus className="h-4 w-4" />
+        Add Field
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CustomFieldsEditor } from '@/components/CustomFieldsEditor';
+import { useNovel } from '@/contexts/NovelContext';
+import {
+  CUSTOM_FIELD_TYPES,
+  FieldDraft,
+  fromFieldDraft,
+  getFieldsError,
+  toFieldDraft,
+} from '@/lib/customEntities';
+import { CustomEntityType } from '@/types/novel';
+import { toast } from 'sonner';
+
+interface CustomTypeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  type: CustomEntityType | null; // null creates a new type
+  onCreated?: (type: CustomEntityType) => void;
+  onDeleted?: () => void;
+}
+
+export const CustomTypeDialog: React.FC<CustomTypeDialogProps> = ({ open, onOpenChange, type, onCreated, onDeleted }) => {
+  const { currentNovel, customTypes, createCustomType, updateCustomType, deleteCustomType } = useNovel();
+  const [name, setName] = useState('');
+  const [pluralName, setPluralName] = useState('');
+  const [fields, setFields] = useState<FieldDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Load the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(type?.name ?? '');
+    setPluralName(type?.pluralName ?? '');
+    setFields((type?.fields ?? []).map(toFieldDraft));
+  }, [open, type]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentNovel || !name.trim()) return;
+
+    const cleaned = fields.map(fromFieldDraft);
+    const error = getFieldsError(cleaned);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      pluralName: pluralName.trim() || `${name.trim()}s`,
+      fields: cleaned,
+    };
+
+    setLoading(true);
+    try {
+      if (type) {
+        await updateCustomType(type.id, data);
+      } else {
+        const created = await createCustomType({
+          ...data,
+          novelId: currentNovel.id,
+          order: customTypes.length,
+        });
+        onCreated?.(created);
+      }
+      toast.success('Type saved');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to save type');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (type && confirm(`Delete the "${type.pluralName}" type and every entry in it? This cannot be undone.`)) {
+      await deleteCustomType(type.id);
+      toast.success('Type deleted');
+      onOpenChange(false);
+      onDeleted?.();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">{type ? `Edit ${type.pluralName}` : 'New Type'}</DialogTitle>
+          <DialogDescription>
+            Define a new kind of entry, like spells, ships or deities, and the fields it has.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto py-4 pr-1">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="custom-type-name">Name *</Label>
+                <Input
+                  id="custom-type-name"
+                  placeholder="e.g., Spell"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="custom-type-plural">Plural</Label>
+                <Input
+                  id="custom-type-plural"
+                  placeholder={name.trim() ? `${name.trim()}s` : 'e.g., Spells'}
+                  value={pluralName}
+                  onChange={(e) => setPluralName(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Fields</Label>
+              <CustomFieldsEditor
+                value={fields}
+                onChange={setFields}
+                fieldTypes={CUSTOM_FIELD_TYPES}
+                linkTypes={customTypes}
+                emptyText="No fields yet. Every entry has a name and a chapter."
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            {type ? (
+              <Button type="button" variant="ghost" className="gap-2 text-destructive" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4" />
+                Delete Type
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || loading}>
+                {loading ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
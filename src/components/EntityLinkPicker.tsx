@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Check, Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+
+export interface LinkOption {
+  id: string;
+  name: string;
+  keywords?: string[]; // Other names the option can be found by
+}
+
+interface EntityLinkPickerProps {
+  options: LinkOption[];
+  value: string[];
+  onChange: (ids: string[]) => void;
+  placeholder: string;
+  emptyText?: string;
+}
+
+export const EntityLinkPicker: React.FC<EntityLinkPickerProps> = ({
+  options,
+  value,
+  onChange,
+  placeholder,
+  emptyText = 'Nothing found.',
+}) => {
+  const [open, setOpen] = useState(false);
+  const selected = options.filter(o => value.includes(o.id));
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter(v => v !== id) : [...value, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map((option) => (
+        <Badge key={option.id} variant="secondary" className="gap-1 pr-1">
+          {option.name}
+          <button
+            type="button"
+            onClick={() => toggle(option.id)}
+            className="rounded-full p-0.5 hover:bg-background/50"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-7 gap-1">
+            <Plus className="h-3 w-3" />
+            {placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search..." />
+            <CommandList>
+              <CommandEmpty>{emptyText}</CommandEmpty>
+              <CommandGroup>
+                {options.map((option) => (
+                  <CommandItem
+                    key={option.id}
+                    value={`${option.name} ${option.id}`}
+                    keywords={option.keywords}
+                    onSelect={() => toggle(option.id)}
+                  >
+                    <Check className={cn('mr-2 h-4 w-4', value.includes(option.id) ? 'opacity-100' : 'opacity-0')} />
+                    {option.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useEffect, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { ChapterInput } from '@/components/ChapterInput';
+import { FactionMembersEditor } from '@/components/FactionMembersEditor';
+import { ImageGallery } from '@/components/ImageGallery';
+import { useNovel } from '@/contexts/NovelContext';
+import { getParentFactionOptions } from '@/lib/factions';
+import { FactionMember, ImageCaptions } from '@/types/novel';
+import { toast } from 'sonner';
+
+const factionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string(),
+  parentFactionId: z.string().optional(),
+  headquartersPlaceId: z.string().optional(),
+  introducedInChapter: z.number().int().min(1, 'Chapter must be 1 or later').optional(),
+  members: z.array(z.custom<FactionMember>()),
+});
+
+type FactionFormValues = z.infer<typeof factionSchema>;
+
+// Radix Select can't use an empty string as an item value
+const NONE = 'none';
+
+export const FactionDetail: React.FC = () => {
+  const { id, factionId } = useParams<{ id: string; factionId: string }>();
+  const navigate = useNavigate();
+  const { currentNovel, selectNovel, characters, places, factions, updateFaction, deleteFaction } = useNovel();
+  const faction = factions.find(f => f.id === factionId);
+
+  const form = useForm<FactionFormValues>({
+    resolver: zodResolver(factionSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      parentFactionId: undefined,
+      headquartersPlaceId: undefined,
+      introducedInChapter: undefined,
+      members: [],
+    },
+  });
+
+  useEffect(() => {
+    if (id) selectNovel(id);
+    return () => { selectNovel(null); };
+  }, [id, selectNovel]);
+
+  const loadedId = useRef<string>();
+  useEffect(() => {
+    if (!faction || loadedId.current === faction.id) return;
+    loadedId.current = faction.id;
+    form.reset({
+      name: faction.name,
+      description: faction.description,
+      parentFactionId: faction.parentFactionId,
+      headquartersPlaceId: faction.headquartersPlaceId,
+      introducedInChapter: faction.introducedInChapter,
+      members: faction.members,
+    });
+  }, [faction, form]);
+
+  if (!currentNovel || !faction) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  const onSubmit = async (values: FactionFormValues) => {
+    const cleaned = {
+      ...values,
+      members: values.members.map(m => ({
+        characterId: m.characterId,
+        role: m.role?.trim() || undefined,
+        rank: m.rank?.trim() || undefined,
+      })),
+    };
+    try {
+      // Spell out the optional fields so clearing them also clears them in storage
+      await updateFaction(faction.id, {
+        ...cleaned,
+        parentFactionId: cleaned.parentFactionId,
+        headquartersPlaceId: cleaned.headquartersPlaceId,
+        introducedInChapter: cleaned.introducedInChapter,
+      });
+      form.reset(cleaned);
+      toast.success('Faction saved');
+    } catch (error) {
+      toast.error('Failed to save faction');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete ${faction.name}? This cannot be undone.`)) {
+      await deleteFaction(faction.id);
+      toast.success('Faction deleted');
+      navigate(`/novel/${currentNovel.id}?tab=factions`);
+    }
+  };
+
+  const handleImagesChange = async (images: string[]) => {
+    await updateFaction(faction.id, { images });
+  };
+
+  const handleCaptionsChange = async (captions: ImageCaptions) => {
+    await updateFaction(faction.id, { captions });
+  };
+
+  const parentOptions = getParentFactionOptions(factions, faction.id);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+        <div className="container flex h-16 items-center gap-4 px-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/novel/${currentNovel.id}?tab=factions`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-display font-bold truncate">{faction.name}</h1>
+            <p className="text-sm text-muted-foreground truncate">{currentNovel.title}</p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={handleDelete} className="text-destructive">
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container max-w-3xl px-4 py-6">
+        <Card className="mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Gallery</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ImageGallery
+              imageIds={faction.images}
+              onChange={handleImagesChange}
+              captions={faction.captions}
+              onCaptionsChange={handleCaptionsChange}
+            />
+          </CardContent>
+        </Card>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., The Arcanum" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea rows={6} placeholder="What do they want? Who leads them?" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="parentFactionId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Part of</FormLabel>
+                        <Select
+                          value={field.value ?? NONE}
+                          onValueChange={(v) => field.onChange(v === NONE ? undefined : v)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NONE}>No parent faction</SelectItem>
+                            {parentOptions.map((f) => (
+                              <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="headquartersPlaceId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Headquarters</FormLabel>
+                        <Select
+                          value={field.value ?? NONE}
+                          onValueChange={(v) => field.onChange(v === NONE ? undefined : v)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NONE}>No headquarters</SelectItem>
+                            {places.map((p) => (
+                              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="introducedInChapter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Introduced in chapter</FormLabel>
+                      <FormControl>
+                        <ChapterInput value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Members</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="members"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FactionMembersEditor
+                        novelId={currentNovel.id}
+                        characters={characters}
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!form.formState.isDirty || form.formState.isSubmitting} className="gap-2">
+                <Save className="h-4 w-4" />
+                {form.formState.isSubmitting ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </main>
+    </div>
+  );
+};
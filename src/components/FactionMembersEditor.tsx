@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { getAliasNames } from '@/lib/aliases';
+import { Character, FactionMember } from '@/types/novel';
+
+interface FactionMembersEditorProps {
+  novelId: string;
+  characters: Character[];
+  value: FactionMember[];
+  onChange: (members: FactionMember[]) => void;
+}
+
+export const FactionMembersEditor: React.FC<FactionMembersEditorProps> = ({
+  novelId,
+  characters,
+  value,
+  onChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const memberIds = value.map(m => m.characterId);
+  const available = characters.filter(c => !memberIds.includes(c.id));
+  const nameOf = (id: string) => characters.find(c => c.id === id)?.name ?? 'Unknown';
+
+  const update = (index: number, patch: Partial<FactionMember>) => {
+    onChange(value.map((member, i) => (i === index ? { ...member, ...patch } : member)));
+  };
+
+  const add = (characterId: string) => {
+    onChange([...value, { characterId }]);
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No members yet</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {value.map((member, index) => (
+            <li key={member.characterId} className="flex flex-wrap items-center gap-2 p-2 sm:flex-nowrap">
+              <Link
+                to={`/novel/${novelId}/character/${member.characterId}`}
+                className="flex-1 min-w-[8rem] truncate text-sm font-medium hover:text-primary"
+              >
+                {nameOf(member.characterId)}
+              </Link>
+              <Input
+                value={member.role ?? ''}
+                onChange={(e) => update(index, { role: e.target.value || undefined })}
+                placeholder="Role"
+                className="h-9 w-36"
+              />
+              <Input
+                value={member.rank ?? ''}
+                onChange={(e) => update(index, { rank: e.target.value || undefined })}
+                placeholder="Rank"
+                className="h-9 w-28"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="gap-2" disabled={available.length === 0}>
+            <Plus className="h-4 w-4" />
+            Add Member
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search..." />
+            <CommandList>
+              <CommandEmpty>No characters found.</CommandEmpty>
+              <CommandGroup>
+                {available.map((c) => (
+                  <CommandItem
+                    key={c.id}
+                    value={`${c.name} ${c.id}`}
+                    keywords={getAliasNames(c)}
+                    onSelect={() => add(c.id)}
+                  >
+                    {c.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
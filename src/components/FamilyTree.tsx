@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ZoomControls } from '@/components/ZoomControls';
+import { useNovel } from '@/contexts/NovelContext';
+import { useImage } from '@/hooks/use-image';
+import { usePanZoom } from '@/hooks/use-pan-zoom';
+import { isDeadAt } from '@/lib/characterStatus';
+import { getFamilyLinks, getHouseFamily, getRelatives, hasFamily, layoutFamilyTree } from '@/lib/familyTree';
+import { getCurrentChapter } from '@/lib/items';
+import { isSpoiler } from '@/lib/spoilers';
+import { Character } from '@/types/novel';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 52;
+const COLUMN = 180;
+const ROW = 120;
+const AVATAR_RADIUS = 18;
+const MAX_LABEL = 16;
+
+// Selections are "character:<id>" or "faction:<id>"
+type Subject = { type: 'character' | 'faction'; id: string };
+
+const toValue = (subject: Subject) => `${subject.type}:${subject.id}`;
+
+const fromValue = (value: string): Subject => {
+  const split = value.indexOf(':');
+  return { type: value.slice(0, split) as Subject['type'], id: value.slice(split + 1) };
+};
+
+const truncate = (text: string) => (text.length > MAX_LABEL ? `${text.slice(0, MAX_LABEL - 1)}…` : text);
+
+export const FamilyTree: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentNovel, characters, factions, relationships } = useNovel();
+  const { svgRef, transform, handlers, wasDragged, zoomBy, reset } = usePanZoom({ width: WIDTH, height: HEIGHT, minScale: 0.1 });
+  const [subject, setSubject] = useState<Subject | null>(null);
+
+  // Characters and houses the reader hasn't reached are left out entirely
+  const visibleCharacters = useMemo(
+    () => characters.filter(c => currentNovel && !isSpoiler(currentNovel, c.introducedInChapter)),
+    [characters, currentNovel]
+  );
+  const visibleIds = useMemo(() => new Set(visibleCharacters.map(c => c.id)), [visibleCharacters]);
+  const links = useMemo(
+    () => getFamilyLinks(relationships.filter(r => visibleIds.has(r.sourceId) && visibleIds.has(r.targetId))),
+    [relationships, visibleIds]
+  );
+  const familyCharacters = visibleCharacters.filter(c => hasFamily(links, c.id));
+  const houses = factions.filter(f =>
+    currentNovel && !isSpoiler(currentNovel, f.introducedInChapter) && f.members.some(m => visibleIds.has(m.characterId))
+  );
+
+  // Start from the first character with any family until the reader picks someone
+  const selected = subject ?? (familyCharacters[0] ? { type: 'character' as const, id: familyCharacters[0].id } : null);
+
+  const selectedType = selected?.type;
+  const selectedId = selected?.id;
+
+  const tree = useMemo(() => {
+    if (!selectedId) return null;
+    const ids = selectedType === 'character'
+      ? getRelatives(links, selectedId)
+      : getHouseFamily(
+          links,
+          (factions.find(f => f.id === selectedId)?.members ?? []).map(m => m.characterId).filter(id => visibleIds.has(id))
+        );
+    return layoutFamilyTree(ids, links);
+  }, [selectedType, selectedId, links, factions, visibleIds]);
+
+  if (!currentNovel) return null;
+
+  if (familyCharacters.length === 0 && houses.length === 0) {
+    return (
+      <p className="py-16 text-center text-sm text-muted-foreground">
+        Add parent, spouse or sibling relationships between characters to build a family tree
+      </p>
+    );
+  }
+
+  const chapter = getCurrentChapter(currentNovel);
+  const characterById = new Map(characters.map(c => [c.id, c]));
+  const generations = tree ? Math.max(0, ...tree.nodes.map(n => n.generation)) : 0;
+  const position = new Map(
+    (tree?.nodes ?? []).map(n => [n.id, { x: n.x * COLUMN, y: (n.generation - generations / 2) * ROW }])
+  );
+
+  const handleNodeClick = (id: string) => {
+    if (wasDragged()) return;
+    navigate(`/novel/${currentNovel.id}/character/${id}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Select value={selected ? toValue(selected) : undefined} onValueChange={(v) => setSubject(fromValue(v))}>
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder="Pick a character or house" />
+        </SelectTrigger>
+        <SelectContent>
+          {familyCharacters.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Characters</SelectLabel>
+              {familyCharacters.map((c) => (
+                <SelectItem key={c.id} value={toValue({ type: 'character', id: c.id })}>{c.name}</SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+          {houses.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Houses</SelectLabel>
+              {houses.map((f) => (
+                <SelectItem key={f.id} value={toValue({ type: 'faction', id: f.id })}>{f.name}</SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+
+      <div className="relative overflow-hidden rounded-lg border bg-card">
+        <svg
+          ref={svgRef}
+          viewBox={`${-WIDTH / 2} ${-HEIGHT / 2} ${WIDTH} ${HEIGHT}`}
+          className="h-[65vh] w-full cursor-grab touch-none select-none active:cursor-grabbing"
+          {...handlers}
+        >
+          <g transform={transform} fill="none" stroke="hsl(var(--muted-foreground))" strokeWidth={1.5}>
+            {tree?.couples.map(([a, b]) => {
+              const pa = position.get(a)!;
+              const pb = position.get(b)!;
+              return <line key={`${a}|${b}`} x1={pa.x} y1={pa.y} x2={pb.x} y2={pb.y} strokeWidth={3} />;
+            })}
+            {tree?.siblingPairs.map(([a, b]) => {
+              const pa = position.get(a)!;
+              const pb = position.get(b)!;
+              const top = Math.min(pa.y, pb.y) - NODE_HEIGHT / 2 - 14;
+              return (
+                <path
+                  key={`${a}|${b}`}
+                  d={`M ${pa.x} ${pa.y - NODE_HEIGHT / 2} V ${top} H ${pb.x} V ${pb.y - NODE_HEIGHT / 2}`}
+                  strokeDasharray="4 4"
+                />
+              );
+            })}
+            {tree?.descents.map(({ parentIds, childId }) => {
+              const parents = parentIds.map(id => position.get(id)!);
+              const child = position.get(childId)!;
+              // Two parents share the line that joins them; a lone parent drops from its bottom edge
+              const startX = parents.reduce((sum, p) => sum + p.x, 0) / parents.length;
+              const startY = Math.max(...parents.map(p => p.y)) + (parents.length > 1 ? 0 : NODE_HEIGHT / 2);
+              const childTop = child.y - NODE_HEIGHT / 2;
+              const elbow = childTop - (ROW - NODE_HEIGHT) / 2;
+              return (
+                <path key={childId} d={`M ${startX} ${startY} V ${elbow} H ${child.x} V ${childTop}`} />
+              );
+            })}
+            {tree?.nodes.map((node) => {
+              const character = characterById.get(node.id);
+              const p = position.get(node.id)!;
+              return character && (
+                <FamilyTreeNode
+                  key={node.id}
+                  character={character}
+                  x={p.x}
+                  y={p.y}
+                  highlighted={selected?.type === 'character' && selected.id === node.id}
+                  dead={isDeadAt(character, chapter)}
+                  onClick={() => handleNodeClick(node.id)}
+                />
+              );
+            })}
+          </g>
+        </svg>
+
+        <ZoomControls onZoom={zoomBy} onReset={reset} />
+
+        <div className="absolute bottom-3 left-3 flex flex-wrap gap-3 rounded-md bg-background/80 px-3 py-2 text-xs backdrop-blur-sm">
+          <span className="flex items-center gap-1.5">
+            <span className="h-0.5 w-4 bg-muted-foreground" />
+            Parent / child
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="h-1 w-4 bg-muted-foreground" />
+            Spouses
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-4 border-t-2 border-dashed border-muted-foreground" />
+            Siblings
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface FamilyTreeNodeProps {
+  character: Character;
+  x: number;
+  y: number;
+  highlighted: boolean;
+  dead: boolean;
+  onClick: () => void;
+}
+
+const FamilyTreeNode: React.FC<FamilyTreeNodeProps> = ({ character, x, y, highlighted, dead, onClick }) => {
+  const src = useImage(character.images[0], 'thumbnail');
+  const clipId = `family-avatar-${character.id}`;
+  const avatarX = -NODE_WIDTH / 2 + 8 + AVATAR_RADIUS;
+
+  return (
+    <g
+      transform={`translate(${x} ${y})`}
+      opacity={dead ? 0.6 : 1}
+      style={dead ? { filter: 'grayscale(1)' } : undefined}
+      className="cursor-pointer"
+      onClick={onClick}
+    >
+      <rect
+        x={-NODE_WIDTH / 2}
+        y={-NODE_HEIGHT / 2}
+        width={NODE_WIDTH}
+        height={NODE_HEIGHT}
+        rx={8}
+        fill="hsl(var(--background))"
+        stroke={highlighted ? 'hsl(var(--primary))' : 'hsl(var(--border))'}
+        strokeWidth={highlighted ? 2.5 : 1.5}
+      />
+      <clipPath id={clipId}>
+        <circle cx={avatarX} cy={0} r={AVATAR_RADIUS} />
+      </clipPath>
+      {src ? (
+        <image
+          href={src}
+          x={avatarX - AVATAR_RADIUS}
+          y={-AVATAR_RADIUS}
+          width={AVATAR_RADIUS * 2}
+          height={AVATAR_RADIUS * 2}
+          preserveAspectRatio="xMidYMid slice"
+          clipPath={`url(#${clipId})`}
+        />
+      ) : (
+        <circle cx={avatarX} cy={0} r={AVATAR_RADIUS} fill="hsl(var(--muted))" stroke="none" />
+      )}
+      <text
+        x={avatarX + AVATAR_RADIUS + 8}
+        y={4}
+        fontSize={12}
+        fill="hsl(var(--foreground))"
+        stroke="none"
+        className="pointer-events-none"
+      >
+        {truncate(character.name)}
+      </text>
+    </g>
+  );
+};
@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import { BookA, Edit, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChapterInput } from '@/components/ChapterInput';
+import { SpoilerShield } from '@/components/SpoilerShield';
+import { useNovel } from '@/contexts/NovelContext';
+import { GLOSSARY_LETTERS, getGlossaryCategories, groupGlossary } from '@/lib/glossary';
+import { getSpoilerMode, isSpoiler } from '@/lib/spoilers';
+import { GlossaryTerm } from '@/types/novel';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Radix Select can't use an empty string as an item value
+const ALL = 'all';
+
+const sectionId = (letter: string) => `glossary-${letter}`;
+
+export const Glossary: React.FC = () => {
+  const { currentNovel, glossary, deleteGlossaryTerm } = useNovel();
+  const [category, setCategory] = useState(ALL);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<GlossaryTerm | null>(null);
+
+  if (!currentNovel) return null;
+
+  const categories = getGlossaryCategories(glossary);
+  const visible = category === ALL ? glossary : glossary.filter(t => t.category?.trim() === category);
+  const groups = groupGlossary(visible);
+  const usedLetters = new Set(groups.map(g => g.letter));
+  const spoilerMode = getSpoilerMode(currentNovel);
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (term: GlossaryTerm) => {
+    setEditing(term);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (term: GlossaryTerm) => {
+    if (confirm(`Delete "${term.term}"?`)) {
+      await deleteGlossaryTerm(term.id);
+      toast.success('Term deleted');
+    }
+  };
+
+  const jumpTo = (letter: string) => {
+    document.getElementById(sectionId(letter))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  return (
+    <div className="space-y-6">
+      {glossary.length > 0 && (
+        <div className="sticky top-16 z-40 -mx-4 space-y-3 bg-background/95 px-4 py-2 backdrop-blur">
+          {categories.length > 0 && (
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-full sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All categories</SelectItem>
+                {categories.map((c) => (
+                  <SelectItem key={c} value={c}>{c}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <nav className="flex flex-wrap gap-1" aria-label="Jump to letter">
+            {GLOSSARY_LETTERS.map((letter) => (
+              <Button
+                key={letter}
+                variant="ghost"
+                size="sm"
+                className={cn('h-7 w-7 p-0 font-medium', !usedLetters.has(letter) && 'text-muted-foreground/40')}
+                disabled={!usedLetters.has(letter)}
+                onClick={() => jumpTo(letter)}
+              >
+                {letter}
+              </Button>
+            ))}
+          </nav>
+        </div>
+      )}
+
+      {glossary.length === 0 ? (
+        <div className="flex flex-col items-center py-16 text-center">
+          <div className="mb-4 rounded-full bg-primary/10 p-4">
+            <BookA className="h-8 w-8 text-primary" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No terms yet</h3>
+          <p className="text-muted-foreground mb-4">Tap the + button to define the story's invented words</p>
+        </div>
+      ) : (
+        groups.map(({ letter, terms }) => (
+          <section key={letter} id={sectionId(letter)} className="scroll-mt-36 space-y-3">
+            <h2 className="border-b pb-1 font-display text-2xl font-bold text-primary">{letter}</h2>
+            {terms.map((term) => (
+              <SpoilerShield
+                key={term.id}
+                active={isSpoiler(currentNovel, term.introducedInChapter)}
+                mode={spoilerMode}
+                chapter={term.introducedInChapter}
+              >
+                <div className="rounded-lg border bg-card p-4">
+                  <div className="flex items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-baseline gap-x-2 gap-y-1">
+                        <h3 className="font-display text-lg font-semibold">{term.term}</h3>
+                        {term.pronunciation && (
+                          <span className="text-sm text-muted-foreground">/{term.pronunciation}/</span>
+                        )}
+                        {term.category && <Badge variant="secondary">{term.category}</Badge>}
+                      </div>
+                      {term.introducedInChapter !== undefined && (
+                        <p className="text-xs text-muted-foreground">First appears in Ch. {term.introducedInChapter}</p>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(term)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(term)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {term.definition && (
+                    <p className="mt-2 whitespace-pre-line text-sm text-muted-foreground">{term.definition}</p>
+                  )}
+                </div>
+              </SpoilerShield>
+            ))}
+          </section>
+        ))
+      )}
+
+      <Button variant="glow" className="fixed bottom-6 right-6 h-14 w-14 rounded-full" onClick={openCreate}>
+        <Plus className="h-6 w-6" />
+      </Button>
+      <GlossaryTermDialog open={dialogOpen} onOpenChange={setDialogOpen} term={editing} categories={categories} />
+    </div>
+  );
+};
+
+interface GlossaryTermDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  term: GlossaryTerm | null;
+  categories: string[];
+}
+
+const GlossaryTermDialog: React.FC<GlossaryTermDialogProps> = ({ open, onOpenChange, term, categories }) => {
+  const { currentNovel, glossary, createGlossaryTerm, updateGlossaryTerm } = useNovel();
+  const [name, setName] = useState('');
+  const [definition, setDefinition] = useState('');
+  const [category, setCategory] = useState('');
+  const [pronunciation, setPronunciation] = useState('');
+  const [chapter, setChapter] = useState<number | undefined>();
+  const [loading, setLoading] = useState(false);
+
+  // Load the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(term?.term ?? '');
+    setDefinition(term?.definition ?? '');
+    setCategory(term?.category ?? '');
+    setPronunciation(term?.pronunciation ?? '');
+    setChapter(term?.introducedInChapter);
+  }, [open, term]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentNovel || !name.trim()) return;
+
+    const key = name.trim().toLowerCase();
+    if (glossary.some(t => t.id !== term?.id && t.term.trim().toLowerCase() === key)) {
+      toast.error(`"${name.trim()}" is already in the glossary`);
+      return;
+    }
+
+    const data = {
+      novelId: currentNovel.id,
+      term: name.trim(),
+      definition: definition.trim(),
+      category: category.trim() || undefined,
+      pronunciation: pronunciation.trim() || undefined,
+      introducedInChapter: chapter,
+    };
+
+    setLoading(true);
+    try {
+      if (term) {
+        await updateGlossaryTerm(term.id, data);
+      } else {
+        await createGlossaryTerm(data);
+      }
+      toast.success('Term saved');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to save term');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">{term ? 'Edit Term' : 'Add Term'}</DialogTitle>
+          <DialogDescription>
+            Mentions of the term are highlighted in your notes.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="glossary-term">Term *</Label>
+              <Input
+                id="glossary-term"
+                placeholder="e.g., Sympathy"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="flex gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="glossary-pronunciation">Pronunciation</Label>
+                <Input
+                  id="glossary-pronunciation"
+                  placeholder="e.g., SIM-pa-thee"
+                  value={pronunciation}
+                  onChange={(e) => setPronunciation(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="glossary-chapter">First appears</Label>
+                <ChapterInput id="glossary-chapter" value={chapter} onChange={setChapter} className="w-24" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="glossary-category">Category</Label>
+              <Input
+                id="glossary-category"
+                list="glossary-categories"
+                placeholder="e.g., Magic"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              />
+              <datalist id="glossary-categories">
+                {categories.map((c) => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="glossary-definition">Definition</Label>
+              <Textarea
+                id="glossary-definition"
+                rows={4}
+                value={definition}
+                onChange={(e) => setDefinition(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crop, RotateCcw, RotateCw } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useNovel } from '@/contexts/NovelContext';
+import { CropRect, ImageEdits, MAX_DIMENSION_OPTIONS, NO_EDITS, getImageSettings, processImage } from '@/lib/images';
+import { ImageSettings } from '@/types/novel';
+import { toast } from 'sonner';
+
+interface ImageEditorDialogProps {
+  files: File[]; // Waiting to be edited; the dialog shows the first
+  onSave: (images: Blob[]) => Promise<void>;
+  onDone: (count: number) => void; // Drops this many files off the front of the queue
+}
+
+// Previews are drawn small; the real edit runs on the full image when saved
+const PREVIEW_SETTINGS: ImageSettings = { maxDimension: 1024, quality: 0.9 };
+// Drags shorter than this (as a fraction of the image) don't make a crop
+const MIN_CROP = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const ImageEditorDialog: React.FC<ImageEditorDialogProps> = ({ files, onSave, onDone }) => {
+  const { currentNovel, updateNovel } = useNovel();
+  const [edits, setEdits] = useState<ImageEdits>(NO_EDITS);
+  const [settings, setSettings] = useState<ImageSettings>(() => getImageSettings(currentNovel));
+  const [preview, setPreview] = useState<string>();
+  const [saving, setSaving] = useState(false);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const file = files[0];
+
+  // Each file starts unedited
+  useEffect(() => {
+    setEdits(NO_EDITS);
+  }, [file]);
+
+  useEffect(() => {
+    if (!file) {
+      setPreview(undefined);
+      return;
+    }
+    let cancelled = false;
+    let url: string | undefined;
+    processImage(file, { quarterTurns: edits.quarterTurns }, PREVIEW_SETTINGS)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreview(url);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error(`Couldn't read ${file.name}`);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, edits.quarterTurns]);
+
+  const rotate = (delta: number) => {
+    // The crop is relative to the rotated image, so it doesn't carry over
+    setEdits(e => ({ quarterTurns: (e.quarterTurns + delta + 4) % 4 }));
+  };
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!imageRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = pointAt(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    const end = pointAt(e);
+    const crop: CropRect = {
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y),
+    };
+    setEdits(prev => ({
+      ...prev,
+      crop: crop.width > MIN_CROP && crop.height > MIN_CROP ? crop : undefined,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const save = async (count: number) => {
+    setSaving(true);
+    try {
+      const rest = files.slice(1, count);
+      const images = [
+        await processImage(file, edits, settings),
+        ...(await Promise.all(rest.map(f => processImage(f, NO_EDITS, settings)))),
+      ];
+      await onSave(images);
+      const saved = getImageSettings(currentNovel);
+      if (currentNovel && (saved.maxDimension !== settings.maxDimension || saved.quality !== settings.quality)) {
+        await updateNovel(currentNovel.id, { imageSettings: settings });
+      }
+      onDone(count);
+    } catch (error) {
+      toast.error('Failed to save image');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const crop = edits.crop;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !saving && onDone(files.length)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {files.length > 1 ? `Add Images (${files.length} left)` : 'Add Image'}
+          </DialogTitle>
+          <DialogDescription>Drag across the image to crop it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex min-h-[40vh] items-center justify-center rounded-md bg-muted p-2">
+          {preview && (
+            <div
+              className="relative cursor-crosshair touch-none select-none overflow-hidden"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img ref={imageRef} src={preview} alt="" draggable={false} className="block max-h-[50vh] w-auto" />
+              {crop && (
+                <div
+                  className="pointer-events-none absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => rotate(-1)}>
+            <RotateCcw className="h-4 w-4" />
+            Rotate Left
+          </Button>
+          <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => rotate(1)}>
+            <RotateCw className="h-4 w-4" />
+            Rotate Right
+          </Button>
+          {crop && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="gap-2"
+              onClick={() => setEdits(e => ({ quarterTurns: e.quarterTurns }))}
+            >
+              <Crop className="h-4 w-4" />
+              Clear Crop
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Maximum size</Label>
+            <Select
+              value={String(settings.maxDimension)}
+              onValueChange={(v) => setSettings(s => ({ ...s, maxDimension: Number(v) }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAX_DIMENSION_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Quality: {Math.round(settings.quality * 100)}%</Label>
+            <Slider
+              min={40}
+              max={100}
+              step={5}
+              value={[Math.round(settings.quality * 100)]}
+              onValueChange={([v]) => setSettings(s => ({ ...s, quality: v / 100 }))}
+              className="py-2"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={() => onDone(1)} disabled={saving}>
+            Skip
+          </Button>
+          {files.length > 1 && (
+            <Button type="button" variant="outline" onClick={() => save(files.length)} disabled={saving || !preview}>
+              Save All {files.length}
+            </Button>
+          )}
+          <Button type="button" onClick={() => save(1)} disabled={saving || !preview}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
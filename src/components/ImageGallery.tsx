@@ -0,0 +1,324 @@
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ImagePlus, MessageSquare, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { ImageEditorDialog } from '@/components/ImageEditorDialog';
+import { imageDB } from '@/lib/database';
+import { getImageFiles } from '@/lib/images';
+import { useImage } from '@/hooks/use-image';
+import { cn } from '@/lib/utils';
+import { ImageCaptions } from '@/types/novel';
+import { toast } from 'sonner';
+
+interface ImageGalleryProps {
+  imageIds: string[];
+  onChange: (imageIds: string[]) => Promise<void>;
+  captions?: ImageCaptions; // Kept on the owning record
+  onCaptionsChange?: (captions: ImageCaptions) => Promise<void>; // Without it images can't be captioned
+}
+
+// An empty caption removes the entry
+const withCaption = (captions: ImageCaptions, imageId: string, caption: string): ImageCaptions => {
+  const next = { ...captions };
+  if (caption.trim()) next[imageId] = caption.trim();
+  else delete next[imageId];
+  return next;
+};
+
+// Set while one of this gallery's images is being dragged to a new spot
+const REORDER_TYPE = 'application/x-gallery-index';
+
+export const ImageGallery: React.FC<ImageGalleryProps> = ({ imageIds, onChange, captions = {}, onCaptionsChange }) => {
+  const [queue, setQueue] = useState<File[]>([]);
+  const [dropActive, setDropActive] = useState(false);
+  const [viewIndex, setViewIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Picked, dropped and pasted images all go through the editor first
+  const enqueue = (files: File[]) => {
+    if (files.length > 0) setQueue(prev => [...prev, ...files]);
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    enqueue(getImageFiles(e.target.files));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDropActive(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDropActive(false);
+    enqueue(getImageFiles(e.dataTransfer.files));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = getImageFiles(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    enqueue(files);
+  };
+
+  const handleSave = async (images: Blob[]) => {
+    const newIds: string[] = [];
+    for (const image of images) {
+      const id = await imageDB.save(image);
+      // Identical images share an id, so one already here is not added again
+      if (imageIds.includes(id) || newIds.includes(id)) await imageDB.delete(id);
+      else newIds.push(id);
+    }
+    if (newIds.length < images.length) toast.info('Images already in the gallery were skipped');
+    if (newIds.length > 0) await onChange([...imageIds, ...newIds]);
+  };
+
+  const handleRemove = async (imageId: string) => {
+    await onChange(imageIds.filter(id => id !== imageId));
+    await imageDB.delete(imageId);
+    if (onCaptionsChange && imageId in captions) await onCaptionsChange(withCaption(captions, imageId, ''));
+  };
+
+  const handleCaption = async (imageId: string) => {
+    const next = prompt('Caption:', captions[imageId] ?? '');
+    if (next !== null) await onCaptionsChange?.(withCaption(captions, imageId, next));
+  };
+
+  const move = async (from: number, to: number) => {
+    if (to < 0 || to >= imageIds.length || from === to) return;
+    const next = [...imageIds];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    await onChange(next);
+  };
+
+  return (
+    <div
+      tabIndex={0}
+      onPaste={handlePaste}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDropActive(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'space-y-3 rounded-md outline-none focus-visible:ring-2 focus-visible:ring-ring',
+        dropActive && 'ring-2 ring-primary ring-offset-2'
+      )}
+    >
+      {imageIds.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+          {imageIds.map((imageId, index) => (
+            <GalleryImage
+              key={imageId}
+              imageId={imageId}
+              onOpen={() => setViewIndex(index)}
+              caption={captions[imageId]}
+              onRemove={() => handleRemove(imageId)}
+              onCaption={onCaptionsChange && (() => handleCaption(imageId))}
+              onMove={(delta) => move(index, index + delta)}
+              onDragStart={(e) => e.dataTransfer.setData(REORDER_TYPE, String(index))}
+              onDrop={(e) => {
+                if (!e.dataTransfer.types.includes(REORDER_TYPE)) return;
+                e.preventDefault();
+                e.stopPropagation();
+                move(Number(e.dataTransfer.getData(REORDER_TYPE)), index);
+              }}
+              isFirst={index === 0}
+              isLast={index === imageIds.length - 1}
+            />
+          ))}
+        </div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handlePick}
+        className="hidden"
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={queue.length > 0}
+          className="gap-2"
+        >
+          <ImagePlus className="h-4 w-4" />
+          Add Images
+        </Button>
+        <p className="text-xs text-muted-foreground">or drop or paste them here</p>
+      </div>
+      <ImageLightbox
+        imageIds={imageIds}
+        captions={captions}
+        index={viewIndex}
+        onIndexChange={setViewIndex}
+      />
+      <ImageEditorDialog
+        files={queue}
+        onSave={handleSave}
+        onDone={(count) => setQueue(prev => prev.slice(count))}
+      />
+    </div>
+  );
+};
+
+interface ImageLightboxProps {
+  imageIds: string[];
+  captions: ImageCaptions;
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+}
+
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ imageIds, captions, index, onIndexChange }) => {
+  const open = index !== null && index < imageIds.length;
+  const src = useImage(open ? imageIds[index] : undefined);
+  const caption = open ? captions[imageIds[index]] : undefined;
+
+  const step = (delta: number) => {
+    if (index === null) return;
+    onIndexChange((index + delta + imageIds.length) % imageIds.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') step(-1);
+    if (e.key === 'ArrowRight') step(1);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onIndexChange(null)}>
+      <DialogContent className="max-w-4xl p-2" onKeyDown={handleKeyDown}>
+        <DialogTitle className="sr-only">Image {open ? index + 1 : 0} of {imageIds.length}</DialogTitle>
+        <div className="relative flex min-h-[50vh] items-center justify-center">
+          {src && <img src={src} alt="" className="max-h-[80vh] w-auto rounded-md object-contain" />}
+          {imageIds.length > 1 && (
+            <>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => step(-1)}
+                className="absolute left-2 bg-background/80 backdrop-blur-sm"
+              >
+                <ChevronLeft className="h-5 w-5" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => step(1)}
+                className="absolute right-2 bg-background/80 backdrop-blur-sm"
+              >
+                <ChevronRight className="h-5 w-5" />
+              </Button>
+            </>
+          )}
+        </div>
+        {open && (
+          <p className="text-center text-xs text-muted-foreground">
+            {caption && <span className="text-foreground">{caption} · </span>}
+            {index + 1} / {imageIds.length}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface GalleryImageProps {
+  imageId: string;
+  caption?: string;
+  onOpen: () => void;
+  onRemove: () => void;
+  onCaption?: () => void;
+  onMove: (delta: number) => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDrop: (e: React.DragEvent) => void;
+  isFirst: boolean;
+  isLast: boolean;
+}
+
+const GalleryImage: React.FC<GalleryImageProps> = ({
+  imageId,
+  caption,
+  onOpen,
+  onRemove,
+  onCaption,
+  onMove,
+  onDragStart,
+  onDrop,
+  isFirst,
+  isLast,
+}) => {
+  const src = useImage(imageId, 'thumbnail');
+
+  return (
+    <figure
+      draggable
+      onDragStart={onDragStart}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={onDrop}
+      className="group relative aspect-square overflow-hidden rounded-md border bg-muted"
+    >
+      {src && (
+        <img src={src} alt={caption ?? ''} draggable={false} onClick={onOpen} className="h-full w-full cursor-zoom-in object-cover" />
+      )}
+      {caption && (
+        <figcaption className="pointer-events-none absolute inset-x-0 bottom-0 truncate bg-background/80 px-2 py-1 text-xs backdrop-blur-sm">
+          {caption}
+        </figcaption>
+      )}
+      <div className="absolute left-1 top-1 flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => onMove(-1)}
+          disabled={isFirst}
+          className="h-7 w-7 bg-background/80 backdrop-blur-sm"
+          aria-label="Move earlier"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => onMove(1)}
+          disabled={isLast}
+          className="h-7 w-7 bg-background/80 backdrop-blur-sm"
+          aria-label="Move later"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        {onCaption && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={onCaption}
+            className="h-7 w-7 bg-background/80 backdrop-blur-sm"
+            aria-label="Edit caption"
+          >
+            <MessageSquare className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        aria-label="Remove image"
+        className="absolute right-1 top-1 h-7 w-7 bg-background/80 opacity-0 backdrop-blur-sm transition-opacity group-hover:opacity-100"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </figure>
+  );
+};
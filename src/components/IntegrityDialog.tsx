@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Wrench } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { integrityDB } from '@/lib/database';
+import { useNovel } from '@/contexts/NovelContext';
+import { IntegrityReport } from '@/types/novel';
+import { toast } from 'sonner';
+
+interface IntegrityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const IntegrityDialog: React.FC<IntegrityDialogProps> = ({ open, onOpenChange }) => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { loadNovels } = useNovel();
+
+  useEffect(() => {
+    if (!open) return;
+    setReport(null);
+    setLoading(true);
+    integrityDB.check()
+      .then(setReport)
+      .catch(() => toast.error('Failed to check data'))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const handleRepair = async () => {
+    setLoading(true);
+    try {
+      const result = await integrityDB.repair();
+      setReport(result);
+      await loadNovels();
+      toast.success(`Repaired ${result.issues.length} issue(s)`);
+    } catch (error) {
+      toast.error('Failed to repair data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const issues = report?.issues ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Check & Repair</DialogTitle>
+          <DialogDescription>
+            Find broken links between entries and images that are no longer used.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !report ? (
+          <div className="flex justify-center py-8">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+          </div>
+        ) : issues.length === 0 || report?.repaired ? (
+          <div className="flex items-start gap-3 rounded-lg border bg-muted/50 p-4">
+            <CheckCircle2 className="h-5 w-5 text-sage mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium">
+                {report?.repaired ? `Fixed ${issues.length} issue(s).` : 'Everything looks good.'}
+              </p>
+              <p className="text-muted-foreground mt-1">All links point to existing entries.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-start gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+              <AlertTriangle className="h-5 w-5 text-destructive mt-0.5" />
+              <p className="text-sm font-medium">Found {issues.length} issue(s)</p>
+            </div>
+            <ul className="max-h-64 space-y-1 overflow-y-auto pr-3 text-sm text-muted-foreground">
+              {issues.map((issue, index) => (
+                <li key={index}>• {issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {issues.length > 0 && !report?.repaired && (
+            <Button onClick={handleRepair} disabled={loading} className="gap-2">
+              <Wrench className="h-4 w-4" />
+              {loading ? 'Repairing...' : 'Repair All'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
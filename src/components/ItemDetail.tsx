@@ -0,0 +1,280 @@
+import React, { useEffect, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { ChapterInput } from '@/components/ChapterInput';
+import { ImageGallery } from '@/components/ImageGallery';
+import { ItemHistoryEditor, ItemHistoryRow } from '@/components/ItemHistoryEditor';
+import { useNovel } from '@/contexts/NovelContext';
+import { toCharacterOption } from '@/lib/aliases';
+import { sortHistory } from '@/lib/items';
+import { ImageCaptions, Item, ItemLocation, ItemOwner } from '@/types/novel';
+import { toast } from 'sonner';
+
+const itemSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string(),
+  introducedInChapter: z.number().int().min(1, 'Chapter must be 1 or later').optional(),
+  owners: z.array(z.custom<ItemHistoryRow>()),
+  locations: z.array(z.custom<ItemHistoryRow>()),
+});
+
+type ItemFormValues = z.infer<typeof itemSchema>;
+
+const toFormValues = (item: Item): ItemFormValues => ({
+  name: item.name,
+  description: item.description,
+  introducedInChapter: item.introducedInChapter,
+  owners: item.owners.map(o => ({ targetId: o.characterId, from: o.acquiredInChapter, to: o.lostInChapter, note: o.note })),
+  locations: item.locations.map(l => ({ targetId: l.placeId, from: l.fromChapter, to: l.toChapter, note: l.note })),
+});
+
+const toOwner = (row: ItemHistoryRow): ItemOwner => ({
+  characterId: row.targetId,
+  acquiredInChapter: row.from,
+  lostInChapter: row.to,
+  note: row.note?.trim() || undefined,
+});
+
+const toLocation = (row: ItemHistoryRow): ItemLocation => ({
+  placeId: row.targetId,
+  fromChapter: row.from,
+  toChapter: row.to,
+  note: row.note?.trim() || undefined,
+});
+
+export const ItemDetail: React.FC = () => {
+  const { id, itemId } = useParams<{ id: string; itemId: string }>();
+  const navigate = useNavigate();
+  const { currentNovel, selectNovel, characters, places, items, updateItem, deleteItem } = useNovel();
+  const item = items.find(i => i.id === itemId);
+
+  const form = useForm<ItemFormValues>({
+    resolver: zodResolver(itemSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      introducedInChapter: undefined,
+      owners: [],
+      locations: [],
+    },
+  });
+
+  useEffect(() => {
+    if (id) selectNovel(id);
+    return () => { selectNovel(null); };
+  }, [id, selectNovel]);
+
+  const loadedId = useRef<string>();
+  useEffect(() => {
+    if (!item || loadedId.current === item.id) return;
+    loadedId.current = item.id;
+    form.reset(toFormValues(item));
+  }, [item, form]);
+
+  if (!currentNovel || !item) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  const onSubmit = async (values: ItemFormValues) => {
+    // Keep both histories in story order so "current" reads the latest entry
+    const cleaned = {
+      ...values,
+      owners: sortHistory(values.owners, r => r.from),
+      locations: sortHistory(values.locations, r => r.from),
+    };
+    try {
+      // Spell out introducedInChapter so clearing the field also clears it in storage
+      await updateItem(item.id, {
+        name: cleaned.name,
+        description: cleaned.description,
+        introducedInChapter: cleaned.introducedInChapter,
+        owners: cleaned.owners.map(toOwner),
+        locations: cleaned.locations.map(toLocation),
+      });
+      form.reset(cleaned);
+      toast.success('Item saved');
+    } catch (error) {
+      toast.error('Failed to save item');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete ${item.name}? This cannot be undone.`)) {
+      await deleteItem(item.id);
+      toast.success('Item deleted');
+      navigate(`/novel/${currentNovel.id}?tab=items`);
+    }
+  };
+
+  const handleImagesChange = async (images: string[]) => {
+    await updateItem(item.id, { images });
+  };
+
+  const handleCaptionsChange = async (captions: ImageCaptions) => {
+    await updateItem(item.id, { captions });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+        <div className="container flex h-16 items-center gap-4 px-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/novel/${currentNovel.id}?tab=items`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-display font-bold truncate">{item.name}</h1>
+            <p className="text-sm text-muted-foreground truncate">{currentNovel.title}</p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={handleDelete} className="text-destructive">
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container max-w-3xl px-4 py-6">
+        <Card className="mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Gallery</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ImageGallery
+              imageIds={item.images}
+              onChange={handleImagesChange}
+              captions={item.captions}
+              onCaptionsChange={handleCaptionsChange}
+            />
+          </CardContent>
+        </Card>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., The Sword of Kings" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea rows={6} placeholder="What is it? What can it do?" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="introducedInChapter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Introduced in chapter</FormLabel>
+                      <FormControl>
+                        <ChapterInput value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Owners</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="owners"
+                  render={({ field }) => (
+                    <FormItem>
+                      <ItemHistoryEditor
+                        options={characters.map(toCharacterOption)}
+                        hrefFor={(characterId) => `/novel/${currentNovel.id}/character/${characterId}`}
+                        value={field.value}
+                        onChange={field.onChange}
+                        fromPlaceholder="Acquired ch."
+                        toPlaceholder="Lost ch."
+                        addLabel="Add Owner"
+                        emptyText="No owners recorded"
+                      />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Locations</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="locations"
+                  render={({ field }) => (
+                    <FormItem>
+                      <ItemHistoryEditor
+                        options={places.map(p => ({ id: p.id, name: p.name }))}
+                        hrefFor={(placeId) => `/novel/${currentNovel.id}/place/${placeId}`}
+                        value={field.value}
+                        onChange={field.onChange}
+                        fromPlaceholder="From ch."
+                        toPlaceholder="Until ch."
+                        addLabel="Add Location"
+                        emptyText="No locations recorded"
+                      />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!form.formState.isDirty || form.formState.isSubmitting} className="gap-2">
+                <Save className="h-4 w-4" />
+                {form.formState.isSubmitting ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </main>
+    </div>
+  );
+};
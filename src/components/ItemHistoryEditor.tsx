@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { ChapterInput } from '@/components/ChapterInput';
+import { LinkOption } from '@/components/EntityLinkPicker';
+
+// Owner and location entries share this shape while they are being edited
+export interface ItemHistoryRow {
+  targetId: string;
+  from?: number;
+  to?: number;
+  note?: string;
+}
+
+interface ItemHistoryEditorProps {
+  options: LinkOption[];
+  hrefFor: (id: string) => string;
+  value: ItemHistoryRow[];
+  onChange: (rows: ItemHistoryRow[]) => void;
+  fromPlaceholder: string;
+  toPlaceholder: string;
+  addLabel: string;
+  emptyText: string;
+}
+
+export const ItemHistoryEditor: React.FC<ItemHistoryEditorProps> = ({
+  options,
+  hrefFor,
+  value,
+  onChange,
+  fromPlaceholder,
+  toPlaceholder,
+  addLabel,
+  emptyText,
+}) => {
+  const [open, setOpen] = useState(false);
+  const nameOf = (id: string) => options.find(o => o.id === id)?.name ?? 'Unknown';
+
+  const update = (index: number, patch: Partial<ItemHistoryRow>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  // The same owner or place can appear more than once, e.g. a sword that is lost and won back
+  const add = (targetId: string) => {
+    onChange([...value, { targetId }]);
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      ) : (
+        <ol className="divide-y rounded-md border">
+          {value.map((row, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 p-2 sm:flex-nowrap">
+              <Link
+                to={hrefFor(row.targetId)}
+                className="flex-1 min-w-[8rem] truncate text-sm font-medium hover:text-primary"
+              >
+                {nameOf(row.targetId)}
+              </Link>
+              <ChapterInput
+                value={row.from}
+                onChange={(from) => update(index, { from })}
+                placeholder={fromPlaceholder}
+                className="h-9 w-28"
+              />
+              <ChapterInput
+                value={row.to}
+                onChange={(to) => update(index, { to })}
+                placeholder={toPlaceholder}
+                className="h-9 w-28"
+              />
+              <Input
+                value={row.note ?? ''}
+                onChange={(e) => update(index, { note: e.target.value || undefined })}
+                placeholder="Note"
+                className="h-9 w-36"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="gap-2" disabled={options.length === 0}>
+            <Plus className="h-4 w-4" />
+            {addLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search..." />
+            <CommandList>
+              <CommandEmpty>Nothing found.</CommandEmpty>
+              <CommandGroup>
+                {options.map((o) => (
+                  <CommandItem
+                    key={o.id}
+                    value={`${o.name} ${o.id}`}
+                    keywords={o.keywords}
+                    onSelect={() => add(o.id)}
+                  >
+                    {o.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
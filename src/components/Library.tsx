@@ -8,12 +8,14 @@ import { Novel, ViewMode } from '@/types/novel';
 import { NovelCard } from '@/components/NovelCard';
 import { CreateNovelDialog } from '@/components/CreateNovelDialog';
 import { ExportImportDialog } from '@/components/ExportImportDialog';
+import { IntegrityDialog } from '@/components/IntegrityDialog';
 
 export const Library: React.FC = () => {
   const { novels, loading } = useNovel();
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [exportImportOpen, setExportImportOpen] = useState(false);
+  const [integrityOpen, setIntegrityOpen] = useState(false);
 
   return (
     <div className="min-h-screen bg-background">
@@ -32,6 +34,14 @@ export const Library: React.FC = () => {
             >
               {viewMode === 'grid' ? <List className="h-5 w-5" /> : <Grid className="h-5 w-5" />}
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIntegrityOpen(true)}
+              title="Check & repair"
+            >
+              <Settings className="h-5 w-5" />
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -93,6 +103,7 @@ export const Library: React.FC = () => {
 
       <CreateNovelDialog open={createDialogOpen} onOpenChange={setCreateDialogOpen} />
       <ExportImportDialog open={exportImportOpen} onOpenChange={setExportImportOpen} />
+      <IntegrityDialog open={integrityOpen} onOpenChange={setIntegrityOpen} />
     </div>
   );
 };
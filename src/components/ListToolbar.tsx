@@ -0,0 +1,174 @@
+import React from 'react';
+import { ArrowDownUp, Image, Link2, Search, Settings2, SlidersHorizontal, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ANY_FIELD_VALUE, DEFAULT_LIST_FILTERS, LIST_SORTS, getFieldSort, isFiltering } from '@/lib/listFilters';
+import { sortTags } from '@/lib/tags';
+import { CustomFieldDef, ListFilters, ListSort, Tag } from '@/types/novel';
+
+interface ListToolbarProps {
+  filters: ListFilters;
+  onChange: (filters: ListFilters) => void;
+  tags: Tag[];
+  placeholder: string;
+  showImageFilter?: boolean;
+  resultCount: number;
+  totalCount: number;
+  fields?: CustomFieldDef[]; // Attribute fields to filter and sort by
+  onEditFields?: () => void;
+}
+
+// Radix Select can't use an empty string as an item value
+const ANY_TAG = 'any';
+const ANY_FIELD = 'any';
+
+// Values a field can be filtered on besides "is set"
+const getFieldValues = (field: CustomFieldDef): { value: string; label: string }[] => {
+  if (field.type === 'select') return (field.options ?? []).map(o => ({ value: o, label: o }));
+  if (field.type === 'boolean') return [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }];
+  return [];
+};
+
+export const ListToolbar: React.FC<ListToolbarProps> = ({
+  filters,
+  onChange,
+  tags,
+  placeholder,
+  showImageFilter = true,
+  resultCount,
+  totalCount,
+  fields = [],
+  onEditFields,
+}) => {
+  const update = (patch: Partial<ListFilters>) => onChange({ ...filters, ...patch });
+  const filtering = isFiltering(filters);
+  const filterField = fields.find(f => f.id === filters.field?.fieldId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder={placeholder}
+            className="pl-9"
+          />
+        </div>
+        {tags.length > 0 && (
+          <Select
+            value={filters.tagId ?? ANY_TAG}
+            onValueChange={(v) => update({ tagId: v === ANY_TAG ? undefined : v })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_TAG}>Any tag</SelectItem>
+              {sortTags(tags).map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {showImageFilter && (
+          <Toggle
+            variant="outline"
+            pressed={filters.hasImages}
+            onPressedChange={(hasImages) => update({ hasImages })}
+            className="gap-2"
+            aria-label="Only entries with images"
+          >
+            <Image className="h-4 w-4" />
+            <span className="hidden md:inline">Has images</span>
+          </Toggle>
+        )}
+        <Toggle
+          variant="outline"
+          pressed={filters.hasLinks}
+          onPressedChange={(hasLinks) => update({ hasLinks })}
+          className="gap-2"
+          aria-label="Only entries with links"
+        >
+          <Link2 className="h-4 w-4" />
+          <span className="hidden md:inline">Has links</span>
+        </Toggle>
+        {fields.length > 0 && (
+          <Select
+            value={filterField?.id ?? ANY_FIELD}
+            onValueChange={(v) => update({ field: v === ANY_FIELD ? undefined : { fieldId: v, value: ANY_FIELD_VALUE } })}
+          >
+            <SelectTrigger className="w-40 gap-2">
+              <SlidersHorizontal className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_FIELD}>Any field</SelectItem>
+              {fields.map((field) => (
+                <SelectItem key={field.id} value={field.id}>{field.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {filterField && (
+          <Select
+            value={filters.field!.value}
+            onValueChange={(value) => update({ field: { fieldId: filterField.id, value } })}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_FIELD_VALUE}>Is set</SelectItem>
+              {getFieldValues(filterField).map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={filters.sort} onValueChange={(v) => update({ sort: v as ListSort })}>
+          <SelectTrigger className="w-44 gap-2">
+            <ArrowDownUp className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LIST_SORTS.map((sort) => (
+              <SelectItem key={sort.value} value={sort.value}>{sort.label}</SelectItem>
+            ))}
+            {fields.map((field) => (
+              <SelectItem key={field.id} value={getFieldSort(field.id)}>{field.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {onEditFields && (
+          <Button variant="outline" size="icon" onClick={onEditFields} aria-label="Edit fields">
+            <Settings2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {filtering && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>Showing {resultCount} of {totalCount}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1"
+            onClick={() => onChange({ ...DEFAULT_LIST_FILTERS, sort: filters.sort })}
+          >
+            <X className="h-3 w-3" />
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { defaultUrlTransform, Components, Options } from 'react-markdown';
+import { Link } from 'react-router-dom';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Character, GlossaryTerm, Place } from '@/types/novel';
+import { GlossarySegment, createGlossaryMatcher } from '@/lib/glossary';
+import { WIKI_LINK_PATTERN, resolveWikiLink } from '@/lib/wikiLinks';
+import { cn } from '@/lib/utils';
+
+interface MarkdownContentProps {
+  content: string;
+  novelId: string;
+  characters: Character[];
+  places: Place[];
+  glossary?: GlossaryTerm[]; // Terms to highlight; leave out spoilers
+  className?: string;
+}
+
+const WIKI_PROTOCOL = 'wiki:';
+
+// [[Name]] becomes a regular Markdown link on a private protocol so the
+// renderer can turn it into an in-app route instead of an external anchor.
+const toMarkdown = (content: string, characters: Character[], places: Place[]) =>
+  content.replace(WIKI_LINK_PATTERN, (_, name: string) => {
+    const target = resolveWikiLink(name, characters, places);
+    const href = target ? `${WIKI_PROTOCOL}${target.type}/${target.id}` : `${WIKI_PROTOCOL}missing`;
+    return `[${name.trim()}](${href})`;
+  });
+
+// Just the parts of a hast node the glossary plugin touches
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+// Text inside these is left alone: links already go somewhere and code is literal
+const GLOSSARY_SKIP = new Set(['a', 'code', 'pre']);
+
+// Rehype plugin wrapping glossary mentions in <dfn data-term-id="...">
+const rehypeGlossary = (match: (text: string) => GlossarySegment[]) => (tree: HastNode) => {
+  const walk = (node: HastNode) => {
+    if (!node.children) return;
+    node.children = node.children.flatMap((child): HastNode[] => {
+      if (child.type === 'text') {
+        return match(child.value ?? '').map(segment => typeof segment === 'string'
+          ? { type: 'text', value: segment }
+          : {
+              type: 'element',
+              tagName: 'dfn',
+              properties: { dataTermId: segment.term.id },
+              children: [{ type: 'text', value: segment.text }],
+            });
+      }
+      if (child.type !== 'element' || !GLOSSARY_SKIP.has(child.tagName ?? '')) walk(child);
+      return [child];
+    });
+  };
+  walk(tree);
+};
+
+const urlTransform = (url: string) =>
+  url.startsWith(WIKI_PROTOCOL) ? url : defaultUrlTransform(url);
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  novelId,
+  characters,
+  places,
+  glossary,
+  className,
+}) => {
+  const markdown = useMemo(() => toMarkdown(content, characters, places), [content, characters, places]);
+  const rehypePlugins = useMemo<Options['rehypePlugins']>(
+    () => (glossary?.length ? [[rehypeGlossary, createGlossaryMatcher(glossary)]] : []),
+    [glossary]
+  );
+
+  const components = useMemo<Components>(() => ({
+    a: ({ href, children }) => {
+      if (href?.startsWith(WIKI_PROTOCOL)) {
+        const path = href.slice(WIKI_PROTOCOL.length);
+        if (path === 'missing') {
+          return (
+            <span className="border-b border-dashed border-muted-foreground text-muted-foreground" title="No matching character or place">
+              {children}
+            </span>
+          );
+        }
+        return (
+          <Link to={`/novel/${novelId}/${path}`} className="font-medium">
+            {children}
+          </Link>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer">
+          {children}
+        </a>
+      );
+    },
+    dfn: ({ node, children }) => {
+      const term = glossary?.find(t => t.id === node?.properties?.dataTermId);
+      if (!term) return <dfn>{children}</dfn>;
+      return (
+        <HoverCard openDelay={200}>
+          <HoverCardTrigger asChild>
+            <dfn className="cursor-help border-b border-dotted border-primary not-italic">{children}</dfn>
+          </HoverCardTrigger>
+          <HoverCardContent className="w-72 space-y-1">
+            <p className="font-display font-semibold">{term.term}</p>
+            {(term.pronunciation || term.category) && (
+              <p className="text-xs text-muted-foreground">
+                {[term.pronunciation && `/${term.pronunciation}/`, term.category].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            <p className="whitespace-pre-line text-sm">{term.definition || 'No definition yet'}</p>
+          </HoverCardContent>
+        </HoverCard>
+      );
+    },
+  }), [novelId, glossary]);
+
+  return (
+    <div className={cn('markdown-content', className)}>
+      <ReactMarkdown urlTransform={urlTransform} rehypePlugins={rehypePlugins} components={components}>
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+};
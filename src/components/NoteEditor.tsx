@@ -0,0 +1,316 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, MapPin, Save, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { TagToggleList } from '@/components/TagBadge';
+import { ChapterInput } from '@/components/ChapterInput';
+import { useNovel } from '@/contexts/NovelContext';
+import { getAliasNames } from '@/lib/aliases';
+import { isSpoiler } from '@/lib/spoilers';
+import { getWikiLinkIds } from '@/lib/wikiLinks';
+import { sortTags } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface Suggestion {
+  type: 'character' | 'place';
+  id: string;
+  name: string; // The text inserted into the link
+  aliasOf?: string; // Set when name is one of a character's aliases
+}
+
+interface LinkQuery {
+  start: number; // index just after the opening [[
+  text: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Returns the partial link name if the caret sits inside an unclosed [[...
+const getLinkQuery = (value: string, caret: number): LinkQuery | null => {
+  const before = value.slice(0, caret);
+  const open = before.lastIndexOf('[[');
+  if (open === -1) return null;
+  const text = before.slice(open + 2);
+  if (/[\]\n[]/.test(text)) return null;
+  return { start: open + 2, text };
+};
+
+export const NoteEditor: React.FC = () => {
+  const { id, noteId } = useParams<{ id: string; noteId: string }>();
+  const navigate = useNavigate();
+  const { currentNovel, selectNovel, characters, places, notes, tags, glossary, updateNote, deleteNote } = useNovel();
+  const note = notes.find(n => n.id === noteId);
+
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [noteTags, setNoteTags] = useState<string[]>([]);
+  const [chapter, setChapter] = useState<number | undefined>();
+  const [saving, setSaving] = useState(false);
+  const [linkQuery, setLinkQuery] = useState<LinkQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (id) selectNovel(id);
+    return () => { selectNovel(null); };
+  }, [id, selectNovel]);
+
+  const loadedId = useRef<string>();
+  useEffect(() => {
+    if (!note || loadedId.current === note.id) return;
+    loadedId.current = note.id;
+    setTitle(note.title);
+    setContent(note.content);
+    setNoteTags(note.tags);
+    setChapter(note.introducedInChapter);
+  }, [note]);
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    if (!linkQuery) return [];
+    const query = linkQuery.text.trim().toLowerCase();
+    const all: Suggestion[] = [
+      ...characters.flatMap(c => [
+        { type: 'character' as const, id: c.id, name: c.name },
+        ...getAliasNames(c).map(alias => ({ type: 'character' as const, id: c.id, name: alias, aliasOf: c.name })),
+      ]),
+      ...places.map(p => ({ type: 'place' as const, id: p.id, name: p.name })),
+    ];
+    const matches = all.filter(s => s.name.toLowerCase().includes(query));
+    matches.sort((a, b) => {
+      const aPrefix = a.name.toLowerCase().startsWith(query) ? 0 : 1;
+      const bPrefix = b.name.toLowerCase().startsWith(query) ? 0 : 1;
+      return aPrefix - bPrefix || a.name.localeCompare(b.name);
+    });
+    return matches.slice(0, MAX_SUGGESTIONS);
+  }, [linkQuery, characters, places]);
+
+  const links = useMemo(() => getWikiLinkIds(content, characters, places), [content, characters, places]);
+
+  // Highlighting a spoiler term would give away its definition on hover
+  const knownTerms = useMemo(
+    () => (currentNovel ? glossary.filter(t => !isSpoiler(currentNovel, t.introducedInChapter)) : []),
+    [currentNovel, glossary]
+  );
+
+  if (!currentNovel || !note) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  const isDirty = title !== note.title
+    || content !== note.content
+    || chapter !== note.introducedInChapter
+    || noteTags.length !== note.tags.length
+    || noteTags.some(t => !note.tags.includes(t));
+
+  const updateLinkQuery = (value: string, caret: number) => {
+    setLinkQuery(getLinkQuery(value, caret));
+    setActiveIndex(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setContent(e.target.value);
+    updateLinkQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const insertLink = (suggestion: Suggestion) => {
+    const textarea = textareaRef.current;
+    if (!linkQuery || !textarea) return;
+
+    const caret = textarea.selectionStart;
+    const after = content.slice(caret);
+    // Swallow an already-typed closing ]] so we don't end up with ]]]]
+    const rest = after.startsWith(']]') ? after.slice(2) : after;
+    const next = `${content.slice(0, linkQuery.start)}${suggestion.name}]]${rest}`;
+    const nextCaret = linkQuery.start + suggestion.name.length + 2;
+
+    setContent(next);
+    setLinkQuery(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!linkQuery || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertLink(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setLinkQuery(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      toast.error('Title is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateNote(note.id, {
+        title: title.trim(),
+        content,
+        tags: noteTags,
+        introducedInChapter: chapter,
+        ...getWikiLinkIds(content, characters, places),
+      });
+      setTitle(title.trim());
+      toast.success('Note saved');
+    } catch (error) {
+      toast.error('Failed to save note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete "${note.title}"? This cannot be undone.`)) {
+      await deleteNote(note.id);
+      toast.success('Note deleted');
+      navigate(`/novel/${currentNovel.id}?tab=notes`);
+    }
+  };
+
+  const linkedCharacters = characters.filter(c => links.linkedCharacterIds.includes(c.id));
+  const linkedPlaces = places.filter(p => links.linkedPlaceIds.includes(p.id));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+        <div className="container flex h-16 items-center gap-4 px-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/novel/${currentNovel.id}?tab=notes`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-display font-bold truncate">{note.title}</h1>
+            <p className="text-sm text-muted-foreground truncate">{currentNovel.title}</p>
+          </div>
+          <Button onClick={handleSave} disabled={!isDirty || saving} className="gap-2">
+            <Save className="h-4 w-4" />
+            <span className="hidden sm:inline">{saving ? 'Saving...' : 'Save'}</span>
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleDelete} className="text-destructive">
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container max-w-3xl space-y-4 px-4 py-6">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Note title"
+          className="text-lg font-display"
+        />
+
+        <TagToggleList tags={sortTags(tags)} value={noteTags} onChange={setNoteTags} />
+
+        <div className="flex items-center gap-3">
+          <Label htmlFor="note-chapter" className="text-sm text-muted-foreground">Introduced in chapter</Label>
+          <ChapterInput id="note-chapter" value={chapter} onChange={setChapter} className="h-9" />
+        </div>
+
+        <Tabs defaultValue="write">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="write">Write</TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="write" className="relative">
+            <Textarea
+              ref={textareaRef}
+              value={content}
+              onChange={handleChange}
+              onKeyDown={handleKeyDown}
+              onClick={(e) => updateLinkQuery(content, e.currentTarget.selectionStart)}
+              onBlur={() => setLinkQuery(null)}
+              rows={18}
+              placeholder="Write in Markdown. Type [[ to link a character (by name or alias) or place."
+              className="font-mono"
+            />
+            {linkQuery && suggestions.length > 0 && (
+              <div className="absolute inset-x-0 top-full z-10 mt-1 overflow-hidden rounded-md border bg-popover shadow-md">
+                {suggestions.map((suggestion, index) => (
+                  <button
+                    key={`${suggestion.type}-${suggestion.id}-${suggestion.name}`}
+                    type="button"
+                    // Keep focus in the textarea so the caret position survives
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => insertLink(suggestion)}
+                    className={cn(
+                      'flex w-full items-center gap-2 px-3 py-2 text-left text-sm',
+                      index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'
+                    )}
+                  >
+                    {suggestion.type === 'character'
+                      ? <Users className="h-4 w-4 text-muted-foreground" />
+                      : <MapPin className="h-4 w-4 text-muted-foreground" />}
+                    {suggestion.name}
+                    {suggestion.aliasOf && (
+                      <span className="text-xs text-muted-foreground">→ {suggestion.aliasOf}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="preview">
+            <div className="min-h-[200px] rounded-md border p-4">
+              {content.trim() ? (
+                <MarkdownContent
+                  content={content}
+                  novelId={currentNovel.id}
+                  characters={characters}
+                  places={places}
+                  glossary={knownTerms}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing to preview</p>
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {(linkedCharacters.length > 0 || linkedPlaces.length > 0) && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Links:</span>
+            {linkedCharacters.map((char) => (
+              <Badge key={char.id} variant="secondary" className="gap-1">
+                <Users className="h-3 w-3" />
+                {char.name}
+              </Badge>
+            ))}
+            {linkedPlaces.map((place) => (
+              <Badge key={place.id} variant="secondary" className="gap-1">
+                <MapPin className="h-3 w-3" />
+                {place.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -1,19 +1,86 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Users, MapPin, FileText, Plus } from 'lucide-react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Blocks, BookA, Users, MapPin, FileText, BookOpen, CalendarClock, Gem, Map as MapIcon, Network, Plus, Share2, Shield, Tags } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { AttributeFieldsDialog } from '@/components/AttributeFieldsDialog';
+import { CustomEntityList } from '@/components/CustomEntityList';
+import { CustomTypeDialog } from '@/components/CustomTypeDialog';
+import { FamilyTree } from '@/components/FamilyTree';
+import { Glossary } from '@/components/Glossary';
+import { ListToolbar } from '@/components/ListToolbar';
+import { PlaceTree } from '@/components/PlaceTree';
+import { ReadingProgressControl } from '@/components/ReadingProgressControl';
+import { RelationshipGraph } from '@/components/RelationshipGraph';
+import { SpoilerShield } from '@/components/SpoilerShield';
+import { TagBadge } from '@/components/TagBadge';
+import { Timeline } from '@/components/Timeline';
+import { TagManagerDialog } from '@/components/TagManagerDialog';
+import { WorldMaps } from '@/components/WorldMaps';
 import { useNovel } from '@/contexts/NovelContext';
-import { TabType, CharacterTag } from '@/types/novel';
+import { getAliasNames } from '@/lib/aliases';
+import { formatChapterNumber, getNextChapterNumber } from '@/lib/chapters';
+import { getStatusAt, getStatusLabel } from '@/lib/characterStatus';
+import { formatCustomValue, getCustomTab, parseCustomTab } from '@/lib/customEntities';
+import { getCurrentChapter, getCurrentLocation, getCurrentOwners } from '@/lib/items';
+import { ListEntry, applyListFilters, clearListFilters, isFiltering, withKnownFields } from '@/lib/listFilters';
+import { getRelatedCharacterIds } from '@/lib/relationships';
+import { getSpoilerMode, isChapterSpoiler, isSpoiler } from '@/lib/spoilers';
+import { sortTags } from '@/lib/tags';
+import { stripWikiLinks } from '@/lib/wikiLinks';
+import { useImage } from '@/hooks/use-image';
+import { useListFilters } from '@/hooks/use-list-filters';
+import { Character, CustomFieldDef, CustomFieldValue, Note, Place, TabType } from '@/types/novel';
+
+const TABS: TabType[] = ['characters', 'places', 'notes', 'factions', 'items', 'glossary', 'chapters', 'timeline', 'graph', 'family', 'maps'];
 
 export const NovelDashboard: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { currentNovel, selectNovel, characters, places, notes, createCharacter, createPlace, createNote } = useNovel();
-  const [activeTab, setActiveTab] = useState<TabType>('characters');
+  const {
+    currentNovel,
+    selectNovel,
+    characters,
+    places,
+    notes,
+    tags,
+    chapters,
+    factions,
+    items,
+    glossary,
+    customTypes,
+    relationships,
+    createCharacter,
+    createPlace,
+    createNote,
+    createFaction,
+    createItem,
+    createChapter,
+  } = useNovel();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useListFilters();
+  const [tagManagerOpen, setTagManagerOpen] = useState(false);
+  const [newTypeOpen, setNewTypeOpen] = useState(false);
+  const [fieldsTarget, setFieldsTarget] = useState<'character' | 'place' | null>(null);
+
+  // Besides the built-in tabs, every custom type has a "type-<id>" tab
+  const tabParam = searchParams.get('tab');
+  const customTypeId = parseCustomTab(tabParam);
+  const isKnownTab = TABS.includes(tabParam as TabType) || customTypes.some(t => t.id === customTypeId);
+  const activeTab = tabParam && isKnownTab ? tabParam : 'characters';
+
+  // Each tab starts with a clean toolbar
+  const setActiveTab = (tab: string) => {
+    setSearchParams(params => {
+      const next = clearListFilters(params);
+      if (tab === 'characters') next.delete('tab');
+      else next.set('tab', tab);
+      return next;
+    }, { replace: true });
+  };
 
   useEffect(() => {
     if (id) selectNovel(id);
@@ -28,10 +95,55 @@ export const NovelDashboard: React.FC = () => {
     );
   }
 
+  const spoilerMode = getSpoilerMode(currentNovel);
+  const shieldProps = (introducedInChapter: number | undefined) => ({
+    active: isSpoiler(currentNovel, introducedInChapter),
+    mode: spoilerMode,
+    chapter: introducedInChapter,
+  });
+  // Item and character cards show state as of the reader's progress
+  const currentChapter = getCurrentChapter(currentNovel);
+
+  const characterEntry = (c: Character): ListEntry => ({
+    name: c.name,
+    searchText: [c.description, ...getAliasNames(c)],
+    tags: c.tags,
+    imageCount: c.images.length,
+    linkCount: getRelatedCharacterIds(relationships, c.id).size + c.linkedPlaceIds.length,
+    createdAt: c.createdAt,
+    updatedAt: c.updatedAt,
+    attributes: c.attributes,
+  });
+  const placeEntry = (p: Place): ListEntry => ({
+    name: p.name,
+    searchText: [p.description],
+    tags: p.tags,
+    imageCount: p.images.length,
+    linkCount: p.linkedCharacterIds.length,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt,
+    attributes: p.attributes,
+  });
+  const noteEntry = (n: Note): ListEntry => ({
+    name: n.title,
+    searchText: [n.content],
+    tags: n.tags,
+    imageCount: 0,
+    linkCount: n.linkedCharacterIds.length + n.linkedPlaceIds.length,
+    createdAt: n.createdAt,
+    updatedAt: n.updatedAt,
+  });
+
+  const characterFields = currentNovel.characterFields ?? [];
+  const placeFields = currentNovel.placeFields ?? [];
+  const visibleCharacters = applyListFilters(characters, withKnownFields(filters, characterFields), characterEntry);
+  const visiblePlaces = applyListFilters(places, withKnownFields(filters, placeFields), placeEntry);
+  const visibleNotes = applyListFilters(notes, filters, noteEntry);
+
   const handleAddCharacter = async () => {
     const name = prompt('Character name:');
     if (name?.trim()) {
-      await createCharacter({
+      const character = await createCharacter({
         novelId: currentNovel.id,
         name: name.trim(),
         description: '',
@@ -40,41 +152,79 @@ export const NovelDashboard: React.FC = () => {
         linkedCharacterIds: [],
         linkedPlaceIds: [],
       });
+      navigate(`/novel/${currentNovel.id}/character/${character.id}`);
     }
   };
 
   const handleAddPlace = async () => {
     const name = prompt('Place name:');
     if (name?.trim()) {
-      await createPlace({
+      const place = await createPlace({
         novelId: currentNovel.id,
         name: name.trim(),
         description: '',
         images: [],
+        tags: [],
         linkedCharacterIds: [],
       });
+      navigate(`/novel/${currentNovel.id}/place/${place.id}`);
     }
   };
 
   const handleAddNote = async () => {
     const title = prompt('Note title:');
     if (title?.trim()) {
-      await createNote({
+      const note = await createNote({
         novelId: currentNovel.id,
         title: title.trim(),
         content: '',
+        tags: [],
         linkedCharacterIds: [],
         linkedPlaceIds: [],
       });
+      navigate(`/novel/${currentNovel.id}/note/${note.id}`);
     }
   };
 
-  const getTagVariant = (tag: CharacterTag) => {
-    const variants: Record<CharacterTag, any> = {
-      mc: 'mc', villain: 'villain', ally: 'ally', mentor: 'mentor',
-      'love-interest': 'love-interest', side: 'side', custom: 'outline'
-    };
-    return variants[tag] || 'outline';
+  const handleAddFaction = async () => {
+    const name = prompt('Faction name:');
+    if (name?.trim()) {
+      const faction = await createFaction({
+        novelId: currentNovel.id,
+        name: name.trim(),
+        description: '',
+        images: [],
+        members: [],
+      });
+      navigate(`/novel/${currentNovel.id}/faction/${faction.id}`);
+    }
+  };
+
+  const handleAddItem = async () => {
+    const name = prompt('Item name:');
+    if (name?.trim()) {
+      const item = await createItem({
+        novelId: currentNovel.id,
+        name: name.trim(),
+        description: '',
+        images: [],
+        owners: [],
+        locations: [],
+      });
+      navigate(`/novel/${currentNovel.id}/item/${item.id}`);
+    }
+  };
+
+  const handleAddChapter = async () => {
+    const chapter = await createChapter({
+      novelId: currentNovel.id,
+      ...getNextChapterNumber(chapters),
+      title: '',
+      summary: '',
+      characterIds: [],
+      placeIds: [],
+    });
+    navigate(`/novel/${currentNovel.id}/chapter/${chapter.id}`);
   };
 
   return (
@@ -90,55 +240,144 @@ export const NovelDashboard: React.FC = () => {
               <p className="text-sm text-muted-foreground truncate">by {currentNovel.author}</p>
             )}
           </div>
+          <ReadingProgressControl novel={currentNovel} />
+          <Button variant="outline" size="sm" onClick={() => setTagManagerOpen(true)} className="gap-2">
+            <Tags className="h-4 w-4" />
+            <span className="hidden sm:inline">Tags</span>
+          </Button>
         </div>
       </header>
 
       <main className="container px-4 py-6">
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as TabType)}>
-          <TabsList className="grid w-full grid-cols-3 mb-6">
-            <TabsTrigger value="characters" className="gap-2">
-              <Users className="h-4 w-4" />
-              <span className="hidden sm:inline">Characters</span>
-              <Badge variant="secondary" className="ml-1">{characters.length}</Badge>
-            </TabsTrigger>
-            <TabsTrigger value="places" className="gap-2">
-              <MapPin className="h-4 w-4" />
-              <span className="hidden sm:inline">Places</span>
-              <Badge variant="secondary" className="ml-1">{places.length}</Badge>
-            </TabsTrigger>
-            <TabsTrigger value="notes" className="gap-2">
-              <FileText className="h-4 w-4" />
-              <span className="hidden sm:inline">Notes</span>
-              <Badge variant="secondary" className="ml-1">{notes.length}</Badge>
-            </TabsTrigger>
-          </TabsList>
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          {/* Scrolls sideways when the tabs don't fit, rather than squeezing them */}
+          <div className="mb-3 overflow-x-auto">
+            <TabsList className="min-w-full justify-start *:flex-1">
+              <TabsTrigger value="characters" className="gap-2">
+                <Users className="h-4 w-4" />
+                <span className="hidden sm:inline">Characters</span>
+                <Badge variant="secondary" className="ml-1">{characters.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="places" className="gap-2">
+                <MapPin className="h-4 w-4" />
+                <span className="hidden sm:inline">Places</span>
+                <Badge variant="secondary" className="ml-1">{places.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="notes" className="gap-2">
+                <FileText className="h-4 w-4" />
+                <span className="hidden sm:inline">Notes</span>
+                <Badge variant="secondary" className="ml-1">{notes.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="factions" className="gap-2">
+                <Shield className="h-4 w-4" />
+                <span className="hidden sm:inline">Factions</span>
+                <Badge variant="secondary" className="ml-1">{factions.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="items" className="gap-2">
+                <Gem className="h-4 w-4" />
+                <span className="hidden sm:inline">Items</span>
+                <Badge variant="secondary" className="ml-1">{items.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="glossary" className="gap-2">
+                <BookA className="h-4 w-4" />
+                <span className="hidden sm:inline">Glossary</span>
+                <Badge variant="secondary" className="ml-1">{glossary.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="chapters" className="gap-2">
+                <BookOpen className="h-4 w-4" />
+                <span className="hidden sm:inline">Chapters</span>
+                <Badge variant="secondary" className="ml-1">{chapters.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="timeline" className="gap-2">
+                <CalendarClock className="h-4 w-4" />
+                <span className="hidden sm:inline">Timeline</span>
+              </TabsTrigger>
+              <TabsTrigger value="graph" className="gap-2">
+                <Share2 className="h-4 w-4" />
+                <span className="hidden sm:inline">Graph</span>
+              </TabsTrigger>
+              <TabsTrigger value="family" className="gap-2">
+                <Network className="h-4 w-4" />
+                <span className="hidden sm:inline">Family</span>
+              </TabsTrigger>
+              <TabsTrigger value="maps" className="gap-2">
+                <MapIcon className="h-4 w-4" />
+                <span className="hidden sm:inline">Maps</span>
+              </TabsTrigger>
+            </TabsList>
+          </div>
+          <div className="mb-6 flex flex-wrap items-center gap-2">
+            {customTypes.length > 0 && (
+              <TabsList className="h-auto flex-wrap justify-start">
+                {customTypes.map((type) => (
+                  <TabsTrigger key={type.id} value={getCustomTab(type.id)} className="gap-2">
+                    <Blocks className="h-4 w-4" />
+                    {type.pluralName}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            )}
+            <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground" onClick={() => setNewTypeOpen(true)}>
+              <Plus className="h-4 w-4" />
+              New Type
+            </Button>
+          </div>
 
           <TabsContent value="characters" className="space-y-4">
             {characters.length === 0 ? (
               <EmptyState icon={Users} title="No characters yet" onAdd={handleAddCharacter} />
+            ) : (
+              <ListToolbar
+                filters={filters}
+                onChange={setFilters}
+                tags={tags}
+                placeholder="Filter characters..."
+                resultCount={visibleCharacters.length}
+                totalCount={characters.length}
+                fields={characterFields}
+                onEditFields={() => setFieldsTarget('character')}
+              />
+            )}
+            {characters.length > 0 && visibleCharacters.length === 0 ? (
+              <NoMatches />
             ) : (
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                {characters.map((char) => (
-                  <Card key={char.id} variant="interactive">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-lg">{char.name}</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-sm text-muted-foreground line-clamp-2">
-                        {char.description || 'No description'}
-                      </p>
-                      {char.tags.length > 0 && (
-                        <div className="flex flex-wrap gap-1 mt-3">
-                          {char.tags.map((tag) => (
-                            <Badge key={tag} variant={getTagVariant(tag)} className="text-xs">
-                              {tag}
-                            </Badge>
-                          ))}
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                ))}
+                {visibleCharacters.map((char) => {
+                  const status = getStatusAt(char, currentChapter);
+                  return (
+                    <SpoilerShield key={char.id} {...shieldProps(char.introducedInChapter)}>
+                      <Card
+                        variant="interactive"
+                        className={status?.status === 'dead' ? 'opacity-60 grayscale' : undefined}
+                        onClick={() => navigate(`/novel/${currentNovel.id}/character/${char.id}`)}
+                      >
+                        <CardHeader className="pb-2">
+                          <div className="flex items-start justify-between gap-2">
+                            <CardTitle className="text-lg">{char.name}</CardTitle>
+                            {status && (
+                              <Badge variant={status.status === 'dead' ? 'secondary' : 'outline'} className="shrink-0">
+                                {getStatusLabel(status.status)}
+                              </Badge>
+                            )}
+                          </div>
+                          {getAliasNames(char).length > 0 && (
+                            <p className="text-xs text-muted-foreground line-clamp-1">
+                              Also known as {getAliasNames(char).join(', ')}
+                            </p>
+                          )}
+                        </CardHeader>
+                        <CardContent>
+                          <CardThumbnail imageId={char.images[0]} />
+                          <p className="text-sm text-muted-foreground line-clamp-2">
+                            {char.description || 'No description'}
+                          </p>
+                          <AttributeList fields={characterFields} values={char.attributes} />
+                          <EntityTags tagIds={char.tags} />
+                        </CardContent>
+                      </Card>
+                    </SpoilerShield>
+                  );
+                })}
               </div>
             )}
             <Button variant="glow" className="fixed bottom-6 right-6 h-14 w-14 rounded-full" onClick={handleAddCharacter}>
@@ -149,19 +388,43 @@ export const NovelDashboard: React.FC = () => {
           <TabsContent value="places" className="space-y-4">
             {places.length === 0 ? (
               <EmptyState icon={MapPin} title="No places yet" onAdd={handleAddPlace} />
+            ) : (
+              <ListToolbar
+                filters={filters}
+                onChange={setFilters}
+                tags={tags}
+                placeholder="Filter places..."
+                resultCount={visiblePlaces.length}
+                totalCount={places.length}
+                fields={placeFields}
+                onEditFields={() => setFieldsTarget('place')}
+              />
+            )}
+            {places.length > 0 && visiblePlaces.length === 0 ? (
+              <NoMatches />
+            ) : places.length > 0 && !isFiltering(withKnownFields(filters, placeFields)) ? (
+              <PlaceTree places={visiblePlaces} />
             ) : (
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                {places.map((place) => (
-                  <Card key={place.id} variant="interactive">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-lg">{place.name}</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-sm text-muted-foreground line-clamp-2">
-                        {place.description || 'No description'}
-                      </p>
-                    </CardContent>
-                  </Card>
+                {visiblePlaces.map((place) => (
+                  <SpoilerShield key={place.id} {...shieldProps(place.introducedInChapter)}>
+                    <Card
+                      variant="interactive"
+                      onClick={() => navigate(`/novel/${currentNovel.id}/place/${place.id}`)}
+                    >
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-lg">{place.name}</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <CardThumbnail imageId={place.images[0]} />
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          {place.description || 'No description'}
+                        </p>
+                        <AttributeList fields={placeFields} values={place.attributes} />
+                        <EntityTags tagIds={place.tags} />
+                      </CardContent>
+                    </Card>
+                  </SpoilerShield>
                 ))}
               </div>
             )}
@@ -173,19 +436,38 @@ export const NovelDashboard: React.FC = () => {
           <TabsContent value="notes" className="space-y-4">
             {notes.length === 0 ? (
               <EmptyState icon={FileText} title="No notes yet" onAdd={handleAddNote} />
+            ) : (
+              <ListToolbar
+                filters={filters}
+                onChange={setFilters}
+                tags={tags}
+                placeholder="Filter notes..."
+                showImageFilter={false}
+                resultCount={visibleNotes.length}
+                totalCount={notes.length}
+              />
+            )}
+            {notes.length > 0 && visibleNotes.length === 0 ? (
+              <NoMatches />
             ) : (
               <div className="grid gap-4 sm:grid-cols-2">
-                {notes.map((note) => (
-                  <Card key={note.id} variant="interactive">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-lg">{note.title}</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-sm text-muted-foreground line-clamp-3">
-                        {note.content || 'Empty note'}
-                      </p>
-                    </CardContent>
-                  </Card>
+                {visibleNotes.map((note) => (
+                  <SpoilerShield key={note.id} {...shieldProps(note.introducedInChapter)}>
+                    <Card
+                      variant="interactive"
+                      onClick={() => navigate(`/novel/${currentNovel.id}/note/${note.id}`)}
+                    >
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-lg">{note.title}</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground line-clamp-3">
+                          {stripWikiLinks(note.content) || 'Empty note'}
+                        </p>
+                        <EntityTags tagIds={note.tags} />
+                      </CardContent>
+                    </Card>
+                  </SpoilerShield>
                 ))}
               </div>
             )}
@@ -193,18 +475,270 @@ export const NovelDashboard: React.FC = () => {
               <Plus className="h-6 w-6" />
             </Button>
           </TabsContent>
+
+          <TabsContent value="factions" className="space-y-4">
+            {factions.length === 0 ? (
+              <EmptyState icon={Shield} title="No factions yet" onAdd={handleAddFaction} />
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {factions.map((faction) => {
+                  const parent = factions.find(f => f.id === faction.parentFactionId);
+                  const headquarters = places.find(p => p.id === faction.headquartersPlaceId);
+                  return (
+                    <SpoilerShield key={faction.id} {...shieldProps(faction.introducedInChapter)}>
+                      <Card
+                        variant="interactive"
+                        onClick={() => navigate(`/novel/${currentNovel.id}/faction/${faction.id}`)}
+                      >
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-lg">{faction.name}</CardTitle>
+                          {parent && (
+                            <p className="text-xs text-muted-foreground">Part of {parent.name}</p>
+                          )}
+                        </CardHeader>
+                        <CardContent>
+                          <CardThumbnail imageId={faction.images[0]} />
+                          <p className="text-sm text-muted-foreground line-clamp-2">
+                            {faction.description || 'No description'}
+                          </p>
+                          <div className="flex flex-wrap gap-4 mt-3 text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Users className="h-3 w-3" />
+                              {faction.members.length} {faction.members.length === 1 ? 'member' : 'members'}
+                            </span>
+                            {headquarters && (
+                              <span className="flex items-center gap-1">
+                                <MapPin className="h-3 w-3" />
+                                {headquarters.name}
+                              </span>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </SpoilerShield>
+                  );
+                })}
+              </div>
+            )}
+            <Button variant="glow" className="fixed bottom-6 right-6 h-14 w-14 rounded-full" onClick={handleAddFaction}>
+              <Plus className="h-6 w-6" />
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="items" className="space-y-4">
+            {items.length === 0 ? (
+              <EmptyState icon={Gem} title="No items yet" onAdd={handleAddItem} />
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {items.map((item) => {
+                  const owners = getCurrentOwners(item, currentChapter)
+                    .map(o => characters.find(c => c.id === o.characterId)?.name)
+                    .filter(Boolean);
+                  const locationId = getCurrentLocation(item, currentChapter)?.placeId;
+                  const location = places.find(p => p.id === locationId);
+                  return (
+                    <SpoilerShield key={item.id} {...shieldProps(item.introducedInChapter)}>
+                      <Card
+                        variant="interactive"
+                        onClick={() => navigate(`/novel/${currentNovel.id}/item/${item.id}`)}
+                      >
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-lg">{item.name}</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <CardThumbnail imageId={item.images[0]} />
+                          <p className="text-sm text-muted-foreground line-clamp-2">
+                            {item.description || 'No description'}
+                          </p>
+                          <div className="flex flex-wrap gap-4 mt-3 text-xs text-muted-foreground">
+                            {owners.length > 0 && (
+                              <span className="flex items-center gap-1">
+                                <Users className="h-3 w-3" />
+                                {owners.join(', ')}
+                              </span>
+                            )}
+                            {location && (
+                              <span className="flex items-center gap-1">
+                                <MapPin className="h-3 w-3" />
+                                {location.name}
+                              </span>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </SpoilerShield>
+                  );
+                })}
+              </div>
+            )}
+            <Button variant="glow" className="fixed bottom-6 right-6 h-14 w-14 rounded-full" onClick={handleAddItem}>
+              <Plus className="h-6 w-6" />
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="glossary">
+            <Glossary />
+          </TabsContent>
+
+          <TabsContent value="chapters" className="space-y-4">
+            {chapters.length === 0 ? (
+              <EmptyState icon={BookOpen} title="No chapters yet" onAdd={handleAddChapter} />
+            ) : (
+              <div className="space-y-3">
+                {chapters.map((chapter) => (
+                  <SpoilerShield key={chapter.id} active={isChapterSpoiler(currentNovel, chapter)} mode={spoilerMode}>
+                    <Card
+                      variant="interactive"
+                      onClick={() => navigate(`/novel/${currentNovel.id}/chapter/${chapter.id}`)}
+                    >
+                      <CardHeader className="pb-2">
+                        <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                          {formatChapterNumber(chapter)}
+                        </p>
+                        <CardTitle className="text-lg">{chapter.title || 'Untitled'}</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          {chapter.summary || 'No summary'}
+                        </p>
+                        {(chapter.characterIds.length > 0 || chapter.placeIds.length > 0) && (
+                          <div className="flex gap-4 mt-3 text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Users className="h-3 w-3" />
+                              {chapter.characterIds.length}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              {chapter.placeIds.length}
+                            </span>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </SpoilerShield>
+                ))}
+              </div>
+            )}
+            <Button variant="glow" className="fixed bottom-6 right-6 h-14 w-14 rounded-full" onClick={handleAddChapter}>
+              <Plus className="h-6 w-6" />
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="timeline">
+            <Timeline />
+          </TabsContent>
+
+          <TabsContent value="graph">
+            {characters.length + places.length === 0 ? (
+              <EmptyState
+                icon={Share2}
+                title="Nothing to graph yet"
+                description="Add characters and places, then link them to see how they connect"
+              />
+            ) : (
+              <RelationshipGraph
+                characters={characters.filter(c => !isSpoiler(currentNovel, c.introducedInChapter))}
+                places={places.filter(p => !isSpoiler(currentNovel, p.introducedInChapter))}
+                relationships={relationships}
+                tags={tags}
+                chapter={currentChapter}
+                onSelect={(type, entityId) => navigate(`/novel/${currentNovel.id}/${type}/${entityId}`)}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="family">
+            <FamilyTree />
+          </TabsContent>
+
+          <TabsContent value="maps">
+            <WorldMaps />
+          </TabsContent>
+          {customTypes.map((type) => (
+            <TabsContent key={type.id} value={getCustomTab(type.id)}>
+              <CustomEntityList type={type} onTypeDeleted={() => setActiveTab('characters')} />
+            </TabsContent>
+          ))}
         </Tabs>
       </main>
+
+      <TagManagerDialog open={tagManagerOpen} onOpenChange={setTagManagerOpen} />
+      <AttributeFieldsDialog
+        open={!!fieldsTarget}
+        onOpenChange={(open) => !open && setFieldsTarget(null)}
+        target={fieldsTarget ?? 'character'}
+      />
+      <CustomTypeDialog
+        open={newTypeOpen}
+        onOpenChange={setNewTypeOpen}
+        type={null}
+        onCreated={(type) => setActiveTab(getCustomTab(type.id))}
+      />
+    </div>
+  );
+};
+
+const EntityTags: React.FC<{ tagIds: string[] }> = ({ tagIds }) => {
+  const { tags } = useNovel();
+  const used = sortTags(tags).filter(t => tagIds.includes(t.id));
+  if (used.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-3">
+      {used.map((tag) => (
+        <TagBadge key={tag.id} tag={tag} className="text-xs" />
+      ))}
     </div>
   );
 };
 
-const EmptyState: React.FC<{ icon: any; title: string; onAdd: () => void }> = ({ icon: Icon, title, onAdd }) => (
+// First image of an entry, floated beside the card's description
+const CardThumbnail: React.FC<{ imageId?: string }> = ({ imageId }) => {
+  const src = useImage(imageId, 'thumbnail');
+  if (!src) return null;
+  return <img src={src} alt="" className="float-right mb-1 ml-3 h-14 w-14 rounded-md object-cover" />;
+};
+
+// Attributes shown on a card; the rest are on the detail page
+const CARD_ATTRIBUTES = 3;
+
+const AttributeList: React.FC<{ fields: CustomFieldDef[]; values?: Record<string, CustomFieldValue> }> = ({
+  fields,
+  values = {},
+}) => {
+  const shown = fields
+    .map(field => ({ field, text: formatCustomValue(field, values[field.id]) }))
+    .filter(({ text }) => text)
+    .slice(0, CARD_ATTRIBUTES);
+  if (shown.length === 0) return null;
+
+  return (
+    <dl className="mt-3 space-y-1 text-sm">
+      {shown.map(({ field, text }) => (
+        <div key={field.id} className="flex gap-2">
+          <dt className="shrink-0 text-muted-foreground">{field.name}:</dt>
+          <dd className="truncate">{text}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const NoMatches: React.FC = () => (
+  <p className="py-12 text-center text-sm text-muted-foreground">Nothing matches these filters</p>
+);
+
+const EmptyState: React.FC<{ icon: any; title: string; description?: string; onAdd?: () => void }> = ({
+  icon: Icon,
+  title,
+  description = 'Tap the + button to add your first entry',
+  onAdd,
+}) => (
   <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex flex-col items-center py-16 text-center">
     <div className="mb-4 rounded-full bg-primary/10 p-4">
       <Icon className="h-8 w-8 text-primary" />
     </div>
     <h3 className="text-lg font-medium mb-2">{title}</h3>
-    <p className="text-muted-foreground mb-4">Tap the + button to add your first entry</p>
+    <p className="text-muted-foreground mb-4">{description}</p>
   </motion.div>
 );
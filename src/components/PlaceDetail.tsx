@@ -0,0 +1,362 @@
+import React, { useEffect, useRef } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, ChevronRight, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { EntityLinkPicker } from '@/components/EntityLinkPicker';
+import { ImageGallery } from '@/components/ImageGallery';
+import { TagToggleList } from '@/components/TagBadge';
+import { ChapterInput } from '@/components/ChapterInput';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { useNovel } from '@/contexts/NovelContext';
+import { toCharacterOption } from '@/lib/aliases';
+import { cleanCustomValues } from '@/lib/customEntities';
+import { getChildPlaces, getParentPlaceOptions, getPlaceAncestors, getVisibleRollupCharacters } from '@/lib/places';
+import { isSpoiler } from '@/lib/spoilers';
+import { sortTags } from '@/lib/tags';
+import { CustomFieldValue, ImageCaptions } from '@/types/novel';
+import { toast } from 'sonner';
+
+const placeSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string(),
+  tags: z.array(z.string()),
+  parentPlaceId: z.string().optional(),
+  attributes: z.record(z.custom<CustomFieldValue>()),
+  introducedInChapter: z.number().int().min(1, 'Chapter must be 1 or later').optional(),
+  linkedCharacterIds: z.array(z.string()),
+});
+
+type PlaceFormValues = z.infer<typeof placeSchema>;
+
+// Radix Select can't use an empty string as an item value
+const NONE = 'none';
+
+export const PlaceDetail: React.FC = () => {
+  const { id, placeId } = useParams<{ id: string; placeId: string }>();
+  const navigate = useNavigate();
+  const { currentNovel, selectNovel, characters, places, tags, updatePlace, deletePlace } = useNovel();
+  const place = places.find(p => p.id === placeId);
+
+  const form = useForm<PlaceFormValues>({
+    resolver: zodResolver(placeSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      tags: [],
+      parentPlaceId: undefined,
+      attributes: {},
+      introducedInChapter: undefined,
+      linkedCharacterIds: [],
+    },
+  });
+
+  useEffect(() => {
+    if (id) selectNovel(id);
+    return () => { selectNovel(null); };
+  }, [id, selectNovel]);
+
+  const loadedId = useRef<string>();
+  useEffect(() => {
+    if (!place || loadedId.current === place.id) return;
+    loadedId.current = place.id;
+    form.reset({
+      name: place.name,
+      description: place.description,
+      tags: place.tags,
+      parentPlaceId: place.parentPlaceId,
+      attributes: place.attributes ?? {},
+      introducedInChapter: place.introducedInChapter,
+      linkedCharacterIds: place.linkedCharacterIds,
+    });
+  }, [place, form]);
+
+  if (!currentNovel || !place) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  const attributeFields = currentNovel.placeFields ?? [];
+  const ancestors = getPlaceAncestors(places, place);
+  const subPlaces = getChildPlaces(places, place.id)
+    .filter(p => !isSpoiler(currentNovel, p.introducedInChapter));
+  // Characters linked somewhere inside this place rather than to it directly
+  const nestedCharacters = getVisibleRollupCharacters(currentNovel, places, characters, place.id)
+    .filter(({ at }) => at.id !== place.id);
+
+  const onSubmit = async (values: PlaceFormValues) => {
+    const cleaned = { ...values, attributes: cleanCustomValues(values.attributes, attributeFields) };
+    try {
+      // Spell out the chapter so clearing the field also clears it in storage
+      await updatePlace(place.id, {
+        ...cleaned,
+        parentPlaceId: cleaned.parentPlaceId,
+        introducedInChapter: cleaned.introducedInChapter,
+      });
+      form.reset(cleaned);
+      toast.success('Place saved');
+    } catch (error) {
+      toast.error('Failed to save place');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete ${place.name}? This cannot be undone.`)) {
+      await deletePlace(place.id);
+      toast.success('Place deleted');
+      navigate(`/novel/${currentNovel.id}?tab=places`);
+    }
+  };
+
+  const handleImagesChange = async (images: string[]) => {
+    await updatePlace(place.id, { images });
+  };
+
+  const handleCaptionsChange = async (captions: ImageCaptions) => {
+    await updatePlace(place.id, { captions });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+        <div className="container flex h-16 items-center gap-4 px-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/novel/${currentNovel.id}?tab=places`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-display font-bold truncate">{place.name}</h1>
+            <p className="text-sm text-muted-foreground truncate">{currentNovel.title}</p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={handleDelete} className="text-destructive">
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container max-w-3xl px-4 py-6">
+        {ancestors.length > 0 && (
+          <nav className="mb-4 flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+            {ancestors.map((ancestor) => (
+              <React.Fragment key={ancestor.id}>
+                <Link to={`/novel/${currentNovel.id}/place/${ancestor.id}`} className="hover:text-primary">
+                  {ancestor.name}
+                </Link>
+                <ChevronRight className="h-3 w-3" />
+              </React.Fragment>
+            ))}
+            <span className="text-foreground">{place.name}</span>
+          </nav>
+        )}
+
+        <Card className="mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Gallery</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ImageGallery
+              imageIds={place.images}
+              onChange={handleImagesChange}
+              captions={place.captions}
+              onCaptionsChange={handleCaptionsChange}
+            />
+          </CardContent>
+        </Card>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., The University" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea rows={6} placeholder="What is this place like? What happened here?" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="parentPlaceId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Inside</FormLabel>
+                      <Select
+                        value={field.value ?? NONE}
+                        onValueChange={(v) => field.onChange(v === NONE ? undefined : v)}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Top level</SelectItem>
+                          {getParentPlaceOptions(places, place.id).map((p) => (
+                            <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags</FormLabel>
+                      <TagToggleList tags={sortTags(tags)} value={field.value} onChange={field.onChange} />
+                    </FormItem>
+                  )}
+                />
+                {attributeFields.map((attribute) => (
+                  <FormField
+                    key={attribute.id}
+                    control={form.control}
+                    name={`attributes.${attribute.id}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{attribute.name}</FormLabel>
+                        <FormControl>
+                          <CustomFieldInput field={attribute} value={field.value} onChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                <FormField
+                  control={form.control}
+                  name="introducedInChapter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Introduced in chapter</FormLabel>
+                      <FormControl>
+                        <ChapterInput value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Characters</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="linkedCharacterIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Linked characters</FormLabel>
+                      <EntityLinkPicker
+                        options={characters.map(toCharacterOption)}
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Link character"
+                        emptyText="No characters found."
+                      />
+                    </FormItem>
+                  )}
+                />
+                {nestedCharacters.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Also here, in places inside {place.name}</p>
+                    <ul className="space-y-1 text-sm">
+                      {nestedCharacters.map(({ character, at }) => (
+                        <li key={character.id} className="flex items-center gap-2">
+                          <Link
+                            to={`/novel/${currentNovel.id}/character/${character.id}`}
+                            className="font-medium hover:text-primary"
+                          >
+                            {character.name}
+                          </Link>
+                          <span className="text-muted-foreground">in {at.name}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {subPlaces.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">Places Inside</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="flex flex-wrap gap-2">
+                    {subPlaces.map((sub) => (
+                      <li key={sub.id}>
+                        <Link
+                          to={`/novel/${currentNovel.id}/place/${sub.id}`}
+                          className="inline-block rounded-full border px-3 py-1 text-sm hover:border-primary hover:text-primary"
+                        >
+                          {sub.name}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!form.formState.isDirty || form.formState.isSubmitting} className="gap-2">
+                <Save className="h-4 w-4" />
+                {form.formState.isSubmitting ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronDown, ChevronRight, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SpoilerShield } from '@/components/SpoilerShield';
+import { TagBadge } from '@/components/TagBadge';
+import { useNovel } from '@/contexts/NovelContext';
+import { useImage } from '@/hooks/use-image';
+import { getChildPlaces, getRootPlaces, getVisibleRollupCharacters } from '@/lib/places';
+import { getSpoilerMode, isSpoiler } from '@/lib/spoilers';
+import { sortTags } from '@/lib/tags';
+import { Place } from '@/types/novel';
+
+interface PlaceTreeProps {
+  places: Place[]; // Already sorted; children keep this order
+}
+
+// Places nested under the places they lie within, each branch collapsible
+export const PlaceTree: React.FC<PlaceTreeProps> = ({ places }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <ul className="rounded-lg border bg-card py-2">
+      {getRootPlaces(places).map((place) => (
+        <PlaceTreeRow
+          key={place.id}
+          place={place}
+          places={places}
+          depth={0}
+          collapsed={collapsed}
+          onToggle={toggle}
+        />
+      ))}
+    </ul>
+  );
+};
+
+interface PlaceTreeRowProps {
+  place: Place;
+  places: Place[];
+  depth: number;
+  collapsed: Set<string>;
+  onToggle: (id: string) => void;
+  ancestorIds?: string[];
+}
+
+const PlaceTreeRow: React.FC<PlaceTreeRowProps> = ({ place, places, depth, collapsed, onToggle, ancestorIds = [] }) => {
+  const navigate = useNavigate();
+  const { currentNovel, characters, tags } = useNovel();
+  const thumbnail = useImage(place.images[0], 'thumbnail');
+  if (!currentNovel) return null;
+
+  // Skip anything already on the path, in case imported data holds a cycle
+  const path = [...ancestorIds, place.id];
+  const children = getChildPlaces(places, place.id).filter(p => !path.includes(p.id));
+  const open = !collapsed.has(place.id);
+  const characterCount = getVisibleRollupCharacters(currentNovel, places, characters, place.id).length;
+  const placeTags = sortTags(tags).filter(t => place.tags.includes(t.id));
+
+  return (
+    <li>
+      <SpoilerShield
+        active={isSpoiler(currentNovel, place.introducedInChapter)}
+        mode={getSpoilerMode(currentNovel)}
+        chapter={place.introducedInChapter}
+      >
+        <div
+          className="flex cursor-pointer items-center gap-2 px-2 py-1.5 hover:bg-muted/50"
+          style={{ paddingLeft: `${0.5 + depth * 1.5}rem` }}
+          onClick={() => navigate(`/novel/${currentNovel.id}/place/${place.id}`)}
+        >
+          {children.length > 0 ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggle(place.id);
+              }}
+              aria-label={open ? `Collapse ${place.name}` : `Expand ${place.name}`}
+            >
+              {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </Button>
+          ) : (
+            <span className="w-6 shrink-0" />
+          )}
+          {thumbnail && <img src={thumbnail} alt="" className="h-6 w-6 shrink-0 rounded object-cover" />}
+          <span className="truncate font-medium">{place.name}</span>
+          {!open && (
+            <span className="text-xs text-muted-foreground">({children.length})</span>
+          )}
+          <div className="ml-auto flex shrink-0 items-center gap-2">
+            {placeTags.map((tag) => (
+              <TagBadge key={tag.id} tag={tag} className="hidden text-xs sm:inline-flex" />
+            ))}
+            {characterCount > 0 && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground" title="Characters here or in places inside">
+                <Users className="h-3 w-3" />
+                {characterCount}
+              </span>
+            )}
+          </div>
+        </div>
+      </SpoilerShield>
+      {/* Children carry their own shields, so places already reached stay visible */}
+      {open && children.length > 0 && (
+        <ul>
+          {children.map((child) => (
+            <PlaceTreeRow
+              key={child.id}
+              place={child}
+              places={places}
+              depth={depth + 1}
+              collapsed={collapsed}
+              onToggle={onToggle}
+              ancestorIds={path}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { BookMarked } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useNovel } from '@/contexts/NovelContext';
+import { formatProgress, getSpoilerMode } from '@/lib/spoilers';
+import { Novel, SpoilerMode } from '@/types/novel';
+import { toast } from 'sonner';
+
+const SPOILER_MODES: { value: SpoilerMode; label: string }[] = [
+  { value: 'blur', label: 'Blur' },
+  { value: 'hide', label: 'Hide' },
+  { value: 'off', label: 'Show everything' },
+];
+
+export const ReadingProgressControl: React.FC<{ novel: Novel }> = ({ novel }) => {
+  const { updateNovel } = useNovel();
+  const [open, setOpen] = useState(false);
+  const [volume, setVolume] = useState('');
+  const [chapter, setChapter] = useState('');
+  const [page, setPage] = useState('');
+  const [mode, setMode] = useState<SpoilerMode>('blur');
+
+  useEffect(() => {
+    if (!open) return;
+    setVolume(novel.readingProgress?.volume?.toString() ?? '');
+    setChapter(novel.readingProgress?.chapter.toString() ?? '');
+    setPage(novel.readingProgress?.page?.toString() ?? '');
+    setMode(novel.readingProgress ? getSpoilerMode(novel) : 'blur');
+  }, [open, novel]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const chapterNumber = parseInt(chapter, 10);
+    if (Number.isNaN(chapterNumber) || chapterNumber < 0) {
+      toast.error('Enter the chapter you are on');
+      return;
+    }
+    const volumeNumber = parseInt(volume, 10);
+    const pageNumber = parseInt(page, 10);
+    await updateNovel(novel.id, {
+      readingProgress: {
+        volume: Number.isNaN(volumeNumber) ? undefined : volumeNumber,
+        chapter: chapterNumber,
+        page: Number.isNaN(pageNumber) ? undefined : pageNumber,
+      },
+      spoilerMode: mode,
+    });
+    setOpen(false);
+  };
+
+  const handleClear = async () => {
+    await updateNovel(novel.id, { readingProgress: undefined });
+    setOpen(false);
+  };
+
+  const progress = formatProgress(novel);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <BookMarked className="h-4 w-4" />
+          <span className="hidden sm:inline">{progress ?? 'Progress'}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <h4 className="font-display font-semibold">Reading progress</h4>
+            <p className="text-xs text-muted-foreground">
+              Entries introduced after this chapter are treated as spoilers.
+            </p>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="progress-volume">Volume</Label>
+              <Input
+                id="progress-volume"
+                type="number"
+                min={1}
+                value={volume}
+                onChange={(e) => setVolume(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="progress-chapter">Chapter</Label>
+              <Input
+                id="progress-chapter"
+                type="number"
+                min={0}
+                value={chapter}
+                onChange={(e) => setChapter(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="progress-page">Page</Label>
+              <Input
+                id="progress-page"
+                type="number"
+                min={0}
+                value={page}
+                onChange={(e) => setPage(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Spoilers</Label>
+            <RadioGroup value={mode} onValueChange={(v) => setMode(v as SpoilerMode)} className="gap-2">
+              {SPOILER_MODES.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <RadioGroupItem id={`spoiler-${option.value}`} value={option.value} />
+                  <Label htmlFor={`spoiler-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="flex justify-between gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={!novel.readingProgress}>
+              Clear
+            </Button>
+            <Button type="submit" size="sm">Save</Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { ZoomControls } from '@/components/ZoomControls';
+import { usePanZoom } from '@/hooks/use-pan-zoom';
+import { Character, Place, Relationship, Tag } from '@/types/novel';
+import { UNTAGGED_COLOR, getPrimaryTag, getPrimaryTagColor, sortTags } from '@/lib/tags';
+import { computeForceLayout, LayoutEdge } from '@/lib/forceLayout';
+import { isDeadAt } from '@/lib/characterStatus';
+import { describeRelationship } from '@/lib/relationships';
+
+export type GraphNodeType = 'character' | 'place';
+
+interface GraphNode {
+  id: string;
+  type: GraphNodeType;
+  label: string;
+  color: string;
+  dead?: boolean;
+}
+
+interface GraphEdge extends LayoutEdge {
+  label?: string;
+  directional?: boolean; // Points from source to target
+}
+
+interface RelationshipGraphProps {
+  characters: Character[];
+  places: Place[];
+  relationships: Relationship[];
+  tags: Tag[];
+  chapter?: number; // Character status is shown as of this chapter
+  onSelect: (type: GraphNodeType, id: string) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const NODE_RADIUS = 14;
+
+// Node keys are prefixed so a character and a place can never collide
+const nodeKey = (type: GraphNodeType, id: string) => `${type}:${id}`;
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const PLACE_COLOR = '#c36522';
+const DEAD_COLOR = 'hsl(var(--muted-foreground))';
+
+export const RelationshipGraph: React.FC<RelationshipGraphProps> = ({ characters, places, relationships, tags, chapter, onSelect }) => {
+  const { svgRef, viewport, transform, handlers, wasDragged, zoomBy, reset } = usePanZoom({ width: WIDTH, height: HEIGHT });
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const { nodes, edges } = useMemo(() => {
+    const nodes: GraphNode[] = [
+      ...characters.map(c => ({
+        id: nodeKey('character', c.id),
+        type: 'character' as const,
+        label: c.name,
+        color: getPrimaryTagColor(c.tags, tags),
+        dead: isDeadAt(c, chapter),
+      })),
+      ...places.map(p => ({
+        id: nodeKey('place', p.id),
+        type: 'place' as const,
+        label: p.name,
+        color: PLACE_COLOR,
+      })),
+    ];
+    const known = new Set(nodes.map(n => n.id));
+    const seen = new Set<string>();
+    const edges: GraphEdge[] = [];
+    const addEdge = (source: string, target: string) => {
+      const key = edgeKey(source, target);
+      if (source === target || seen.has(key) || !known.has(source) || !known.has(target)) return;
+      seen.add(key);
+      edges.push({ source, target });
+    };
+
+    // Typed relationships first; several between one pair share a line
+    const byPair = new Map<string, GraphEdge>();
+    for (const r of relationships) {
+      const source = nodeKey('character', r.sourceId);
+      const target = nodeKey('character', r.targetId);
+      if (source === target || !known.has(source) || !known.has(target)) continue;
+      const label = describeRelationship(r, r.sourceId).phrase;
+      const key = edgeKey(source, target);
+      const existing = byPair.get(key);
+      if (existing) {
+        existing.label = `${existing.label}, ${label}`;
+        existing.directional = existing.directional && r.directional && existing.source === source;
+        continue;
+      }
+      const edge = { source, target, label, directional: r.directional };
+      byPair.set(key, edge);
+      seen.add(key);
+      edges.push(edge);
+    }
+
+    // Characters connect to places through plain links
+    for (const c of characters) {
+      const source = nodeKey('character', c.id);
+      c.linkedPlaceIds.forEach(id => addEdge(source, nodeKey('place', id)));
+    }
+    for (const p of places) {
+      const source = nodeKey('place', p.id);
+      p.linkedCharacterIds.forEach(id => addEdge(source, nodeKey('character', id)));
+    }
+
+    return { nodes, edges };
+  }, [characters, places, relationships, tags, chapter]);
+
+  const positions = useMemo(
+    () => computeForceLayout(nodes.map(n => n.id), edges, { width: WIDTH, height: HEIGHT }),
+    [nodes, edges]
+  );
+
+  const neighbours = useMemo(() => {
+    if (!hovered) return null;
+    const set = new Set([hovered]);
+    edges.forEach(e => {
+      if (e.source === hovered) set.add(e.target);
+      if (e.target === hovered) set.add(e.source);
+    });
+    return set;
+  }, [hovered, edges]);
+
+  const handleNodeClick = (node: GraphNode) => {
+    if (wasDragged()) return;
+    onSelect(node.type, node.id.slice(node.type.length + 1));
+  };
+
+  const usedTags = useMemo(() => {
+    const primary = new Set(characters.map(c => getPrimaryTag(c.tags, tags)?.id));
+    return sortTags(tags).filter(t => primary.has(t.id));
+  }, [characters, tags]);
+
+  return (
+    <div className="relative overflow-hidden rounded-lg border bg-card">
+      <svg
+        ref={svgRef}
+        viewBox={`${-WIDTH / 2} ${-HEIGHT / 2} ${WIDTH} ${HEIGHT}`}
+        className="h-[65vh] w-full cursor-grab touch-none select-none active:cursor-grabbing"
+        {...handlers}
+      >
+        <defs>
+          <marker id="graph-arrow" viewBox="0 0 10 10" refX={10} refY={5} markerWidth={6} markerHeight={6} orient="auto">
+            <path d="M0 0L10 5L0 10z" fill="hsl(var(--muted-foreground))" />
+          </marker>
+        </defs>
+        <g transform={transform}>
+          {edges.map((edge) => {
+            const a = positions.get(edge.source);
+            const b = positions.get(edge.target);
+            if (!a || !b) return null;
+            const dimmed = neighbours && !(neighbours.has(edge.source) && neighbours.has(edge.target));
+            // Arrows stop at the edge of the target node rather than its centre
+            const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+            const inset = edge.directional ? (NODE_RADIUS + 2) / length : 0;
+            return (
+              <g key={edgeKey(edge.source, edge.target)} opacity={dimmed ? 0.1 : 0.5}>
+                <line
+                  x1={a.x}
+                  y1={a.y}
+                  x2={b.x - (b.x - a.x) * inset}
+                  y2={b.y - (b.y - a.y) * inset}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeWidth={1.5 / viewport.scale}
+                  markerEnd={edge.directional ? 'url(#graph-arrow)' : undefined}
+                />
+                {edge.label && (
+                  <text
+                    x={(a.x + b.x) / 2}
+                    y={(a.y + b.y) / 2 - 4}
+                    textAnchor="middle"
+                    fontSize={10}
+                    fill="hsl(var(--foreground))"
+                    className="pointer-events-none"
+                  >
+                    {edge.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          {nodes.map((node) => {
+            const p = positions.get(node.id);
+            if (!p) return null;
+            const dimmed = neighbours && !neighbours.has(node.id);
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${p.x} ${p.y})`}
+                opacity={dimmed ? 0.25 : node.dead ? 0.6 : 1}
+                className="cursor-pointer"
+                onClick={() => handleNodeClick(node)}
+                onPointerEnter={() => setHovered(node.id)}
+                onPointerLeave={() => setHovered(null)}
+              >
+                {node.type === 'character' ? (
+                  <circle
+                    r={NODE_RADIUS}
+                    fill={node.dead ? DEAD_COLOR : node.color}
+                    stroke="hsl(var(--background))"
+                    strokeWidth={2}
+                  />
+                ) : (
+                  <rect
+                    x={-NODE_RADIUS}
+                    y={-NODE_RADIUS}
+                    width={NODE_RADIUS * 2}
+                    height={NODE_RADIUS * 2}
+                    rx={4}
+                    fill={node.color}
+                    stroke="hsl(var(--background))"
+                    strokeWidth={2}
+                  />
+                )}
+                <text
+                  y={NODE_RADIUS + 14}
+                  textAnchor="middle"
+                  fontSize={12}
+                  fill={node.dead ? DEAD_COLOR : 'hsl(var(--foreground))'}
+                  className="pointer-events-none"
+                >
+                  {node.label}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <ZoomControls onZoom={zoomBy} onReset={reset} />
+
+      <div className="absolute bottom-3 left-3 flex flex-wrap gap-3 rounded-md bg-background/80 px-3 py-2 text-xs backdrop-blur-sm">
+        {usedTags.map((tag) => (
+          <span key={tag.id} className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ background: tag.color }} />
+            {tag.name}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full" style={{ background: UNTAGGED_COLOR }} />
+          Untagged
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm" style={{ background: PLACE_COLOR }} />
+          Place
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { SpoilerMode } from '@/types/novel';
+
+interface SpoilerShieldProps {
+  active: boolean;
+  mode: SpoilerMode;
+  chapter?: number;
+  children: React.ReactNode;
+}
+
+// Blurs (or replaces with a placeholder) an entry the reader hasn't reached yet,
+// until they explicitly reveal it
+export const SpoilerShield: React.FC<SpoilerShieldProps> = ({ active, mode, chapter, children }) => {
+  const [revealed, setRevealed] = useState(false);
+
+  if (!active || revealed || mode === 'off') return <>{children}</>;
+
+  const reveal = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setRevealed(true);
+  };
+
+  const overlay = (
+    <div className="flex flex-col items-center gap-2 text-center">
+      <EyeOff className="h-5 w-5 text-muted-foreground" />
+      <p className="text-sm text-muted-foreground">
+        Spoiler{chapter !== undefined && ` · introduced in chapter ${chapter}`}
+      </p>
+      <Button variant="outline" size="sm" onClick={reveal}>
+        Reveal
+      </Button>
+    </div>
+  );
+
+  if (mode === 'hide') {
+    return <Card className="flex min-h-[120px] items-center justify-center border-dashed p-4">{overlay}</Card>;
+  }
+
+  return (
+    <div className="relative">
+      <div aria-hidden className="pointer-events-none select-none blur-md">
+        {children}
+      </div>
+      <div className="absolute inset-0 flex items-center justify-center">{overlay}</div>
+    </div>
+  );
+};
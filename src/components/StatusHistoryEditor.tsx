@@ -0,0 +1,83 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChapterInput } from '@/components/ChapterInput';
+import { CHARACTER_STATUSES } from '@/lib/characterStatus';
+import { CharacterStatus, CharacterStatusChange } from '@/types/novel';
+
+interface StatusHistoryEditorProps {
+  value: CharacterStatusChange[];
+  onChange: (history: CharacterStatusChange[]) => void;
+}
+
+export const StatusHistoryEditor: React.FC<StatusHistoryEditorProps> = ({ value, onChange }) => {
+  const update = (index: number, patch: Partial<CharacterStatusChange>) => {
+    onChange(value.map((change, i) => (i === index ? { ...change, ...patch } : change)));
+  };
+
+  // A first entry starts the story alive; later ones usually mark a change from there
+  const add = () => {
+    onChange([...value, { status: value.length === 0 ? 'alive' : 'dead' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No status recorded.</p>
+      ) : (
+        <ol className="divide-y rounded-md border">
+          {value.map((change, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 p-2 sm:flex-nowrap">
+              <Select
+                value={change.status}
+                onValueChange={(status) => update(index, { status: status as CharacterStatus })}
+              >
+                <SelectTrigger className="h-9 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHARACTER_STATUSES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ChapterInput
+                value={change.chapter}
+                onChange={(chapter) => update(index, { chapter })}
+                placeholder="From ch."
+                className="h-9 w-28"
+              />
+              <Input
+                value={change.note ?? ''}
+                onChange={(e) => update(index, { note: e.target.value || undefined })}
+                placeholder="Note"
+                className="h-9 flex-1 min-w-[8rem]"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <Button type="button" variant="outline" size="sm" className="gap-2" onClick={add}>
+        <Plus className="h-4 w-4" />
+        Add Status Change
+      </Button>
+    </div>
+  );
+};
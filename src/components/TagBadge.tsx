@@ -0,0 +1,55 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { TAG_ICONS, getTagStyle } from '@/lib/tags';
+import { Tag } from '@/types/novel';
+import { cn } from '@/lib/utils';
+
+interface TagBadgeProps {
+  tag: Tag;
+  muted?: boolean;
+  className?: string;
+}
+
+export const TagBadge: React.FC<TagBadgeProps> = ({ tag, muted = false, className }) => {
+  const Icon = tag.icon ? TAG_ICONS[tag.icon] : null;
+
+  return (
+    <Badge
+      variant="outline"
+      style={muted ? undefined : getTagStyle(tag.color)}
+      className={cn('gap-1', muted && 'opacity-60', className)}
+    >
+      {Icon && <Icon className="h-3 w-3" />}
+      {tag.name}
+    </Badge>
+  );
+};
+
+interface TagToggleListProps {
+  tags: Tag[];
+  value: string[];
+  onChange: (ids: string[]) => void;
+}
+
+export const TagToggleList: React.FC<TagToggleListProps> = ({ tags, value, onChange }) => {
+  if (tags.length === 0) {
+    return <p className="text-sm text-muted-foreground">No tags defined for this novel</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {tags.map((tag) => {
+        const active = value.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            onClick={() => onChange(active ? value.filter(id => id !== tag.id) : [...value, tag.id])}
+          >
+            <TagBadge tag={tag} muted={!active} className="cursor-pointer" />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
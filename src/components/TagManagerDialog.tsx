@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Edit, Plus, Trash2, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TagBadge } from '@/components/TagBadge';
+import { useNovel } from '@/contexts/NovelContext';
+import { TAG_COLORS, TAG_ICONS, sortTags } from '@/lib/tags';
+import { Tag, TagIcon } from '@/types/novel';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface TagDraft {
+  name: string;
+  color: string;
+  icon?: TagIcon;
+}
+
+const EMPTY_DRAFT: TagDraft = { name: '', color: TAG_COLORS[0] };
+
+export const TagManagerDialog: React.FC<TagManagerDialogProps> = ({ open, onOpenChange }) => {
+  const { currentNovel, tags, createTag, updateTag, reorderTags, deleteTag } = useNovel();
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<TagDraft>(EMPTY_DRAFT);
+
+  const sorted = sortTags(tags);
+
+  const startEdit = (tag: Tag) => {
+    setEditingId(tag.id);
+    setDraft({ name: tag.name, color: tag.color, icon: tag.icon });
+  };
+
+  const startCreate = () => {
+    setEditingId('new');
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSave = async () => {
+    if (!currentNovel || !draft.name.trim()) return;
+    const data = { name: draft.name.trim(), color: draft.color, icon: draft.icon };
+    if (sorted.some(t => t.id !== editingId && t.name.toLowerCase() === data.name.toLowerCase())) {
+      toast.error('A tag with that name already exists');
+      return;
+    }
+
+    if (editingId === 'new') {
+      await createTag({ ...data, novelId: currentNovel.id });
+    } else if (editingId) {
+      await updateTag(editingId, data);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (confirm(`Delete the "${tag.name}" tag? It will be removed from everything that uses it.`)) {
+      await deleteTag(tag.id);
+      toast.success('Tag deleted');
+    }
+  };
+
+  const move = async (index: number, delta: number) => {
+    const ids = sorted.map(t => t.id);
+    const target = index + delta;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    await reorderTags(ids);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Tags</DialogTitle>
+          <DialogDescription>
+            Tags for this novel. Use them on characters, places and notes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="max-h-[50vh] divide-y overflow-y-auto rounded-md border">
+          {sorted.map((tag, index) => (
+            <li key={tag.id} className="p-3">
+              {editingId === tag.id ? (
+                <TagEditor draft={draft} onChange={setDraft} onSave={handleSave} onCancel={() => setEditingId(null)} />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <TagBadge tag={tag} />
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => move(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => move(index, 1)} disabled={index === sorted.length - 1}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEdit(tag)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(tag)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+          {editingId === 'new' && (
+            <li className="p-3">
+              <TagEditor draft={draft} onChange={setDraft} onSave={handleSave} onCancel={() => setEditingId(null)} />
+            </li>
+          )}
+        </ul>
+
+        {editingId !== 'new' && (
+          <Button variant="outline" onClick={startCreate} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Tag
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface TagEditorProps {
+  draft: TagDraft;
+  onChange: (draft: TagDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const TagEditor: React.FC<TagEditorProps> = ({ draft, onChange, onSave, onCancel }) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <Input
+        value={draft.name}
+        onChange={(e) => onChange({ ...draft, name: e.target.value })}
+        onKeyDown={(e) => e.key === 'Enter' && onSave()}
+        placeholder="Tag name"
+        autoFocus
+      />
+      <Button size="icon" className="shrink-0" onClick={onSave} disabled={!draft.name.trim()}>
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="shrink-0" onClick={onCancel}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+    <div className="space-y-1.5">
+      <Label className="text-xs text-muted-foreground">Colour</Label>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {TAG_COLORS.map((color) => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => onChange({ ...draft, color })}
+            className={cn(
+              'h-6 w-6 rounded-full border-2',
+              draft.color === color ? 'border-foreground' : 'border-transparent'
+            )}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+        <input
+          type="color"
+          value={draft.color}
+          onChange={(e) => onChange({ ...draft, color: e.target.value })}
+          className="h-6 w-8 cursor-pointer rounded border-0 bg-transparent p-0"
+        />
+      </div>
+    </div>
+    <div className="space-y-1.5">
+      <Label className="text-xs text-muted-foreground">Icon</Label>
+      <div className="flex flex-wrap gap-1">
+        <Button
+          type="button"
+          variant={draft.icon ? 'ghost' : 'secondary'}
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onChange({ ...draft, icon: undefined })}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+        {(Object.keys(TAG_ICONS) as TagIcon[]).map((icon) => {
+          const Icon = TAG_ICONS[icon];
+          return (
+            <Button
+              key={icon}
+              type="button"
+              variant={draft.icon === icon ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onChange({ ...draft, icon })}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
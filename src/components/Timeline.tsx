@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock, Edit, MapPin, Plus, Trash2, Users } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChapterInput } from '@/components/ChapterInput';
+import { EntityLinkPicker } from '@/components/EntityLinkPicker';
+import { SpoilerShield } from '@/components/SpoilerShield';
+import { useNovel } from '@/contexts/NovelContext';
+import { toCharacterOption } from '@/lib/aliases';
+import { getSpoilerMode, isSpoiler } from '@/lib/spoilers';
+import { filterEvents, formatEventWhen } from '@/lib/timeline';
+import { StoryEvent } from '@/types/novel';
+import { toast } from 'sonner';
+
+// Radix Select can't use an empty string as an item value
+const ALL = 'all';
+const NONE = 'none';
+
+export const Timeline: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentNovel, characters, places, events, deleteEvent } = useNovel();
+  const [characterId, setCharacterId] = useState(ALL);
+  const [placeId, setPlaceId] = useState(ALL);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<StoryEvent | null>(null);
+
+  if (!currentNovel) return null;
+
+  const visible = filterEvents(events, {
+    characterId: characterId === ALL ? undefined : characterId,
+    placeId: placeId === ALL ? undefined : placeId,
+  });
+  const spoilerMode = getSpoilerMode(currentNovel);
+  const nameOf = (id: string) => characters.find(c => c.id === id)?.name ?? 'Unknown';
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (event: StoryEvent) => {
+    setEditing(event);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (event: StoryEvent) => {
+    if (confirm(`Delete "${event.title}"?`)) {
+      await deleteEvent(event.id);
+      toast.success('Event deleted');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {events.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          <Select value={characterId} onValueChange={setCharacterId}>
+            <SelectTrigger className="w-full sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All characters</SelectItem>
+              {characters.map((c) => (
+                <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={placeId} onValueChange={setPlaceId}>
+            <SelectTrigger className="w-full sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All places</SelectItem>
+              {places.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <div className="flex flex-col items-center py-16 text-center">
+          <div className="mb-4 rounded-full bg-primary/10 p-4">
+            <CalendarClock className="h-8 w-8 text-primary" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No events yet</h3>
+          <p className="text-muted-foreground mb-4">Tap the + button to record what happens in the story</p>
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">No events match these filters</p>
+      ) : (
+        <ol className="relative ml-3 space-y-6 border-l-2 border-border pl-6">
+          {visible.map((event) => {
+            const when = formatEventWhen(event);
+            const place = places.find(p => p.id === event.placeId);
+            return (
+              <li key={event.id} className="relative">
+                <span className="absolute -left-[33px] top-1.5 h-4 w-4 rounded-full border-2 border-background bg-primary" />
+                <SpoilerShield
+                  active={isSpoiler(currentNovel, event.chapter)}
+                  mode={spoilerMode}
+                  chapter={event.chapter}
+                >
+                  <div className="rounded-lg border bg-card p-4">
+                    <div className="flex items-start gap-2">
+                      <div className="flex-1 min-w-0">
+                        {when && (
+                          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{when}</p>
+                        )}
+                        <h3 className="font-display text-lg font-semibold">{event.title}</h3>
+                      </div>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(event)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(event)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {event.description && (
+                      <p className="mt-2 whitespace-pre-line text-sm text-muted-foreground">{event.description}</p>
+                    )}
+                    {(event.characterIds.length > 0 || place) && (
+                      <div className="mt-3 flex flex-wrap gap-1">
+                        {place && (
+                          <Badge
+                            variant="outline"
+                            className="cursor-pointer gap-1"
+                            onClick={() => navigate(`/novel/${currentNovel.id}/place/${place.id}`)}
+                          >
+                            <MapPin className="h-3 w-3" />
+                            {place.name}
+                          </Badge>
+                        )}
+                        {event.characterIds.map((id) => (
+                          <Badge
+                            key={id}
+                            variant="secondary"
+                            className="cursor-pointer gap-1"
+                            onClick={() => navigate(`/novel/${currentNovel.id}/character/${id}`)}
+                          >
+                            <Users className="h-3 w-3" />
+                            {nameOf(id)}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </SpoilerShield>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <Button variant="glow" className="fixed bottom-6 right-6 h-14 w-14 rounded-full" onClick={openCreate}>
+        <Plus className="h-6 w-6" />
+      </Button>
+      <EventDialog open={dialogOpen} onOpenChange={setDialogOpen} event={editing} />
+    </div>
+  );
+};
+
+interface EventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: StoryEvent | null;
+}
+
+const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, event }) => {
+  const { currentNovel, characters, places, createEvent, updateEvent } = useNovel();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [date, setDate] = useState('');
+  const [chapter, setChapter] = useState<number | undefined>();
+  const [characterIds, setCharacterIds] = useState<string[]>([]);
+  const [placeId, setPlaceId] = useState(NONE);
+  const [loading, setLoading] = useState(false);
+
+  // Load the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setTitle(event?.title ?? '');
+    setDescription(event?.description ?? '');
+    setDate(event?.date ?? '');
+    setChapter(event?.chapter);
+    setCharacterIds(event?.characterIds ?? []);
+    setPlaceId(event?.placeId ?? NONE);
+  }, [open, event]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentNovel || !title.trim()) return;
+
+    const data = {
+      novelId: currentNovel.id,
+      title: title.trim(),
+      description: description.trim(),
+      date: date.trim() || undefined,
+      chapter,
+      characterIds,
+      placeId: placeId === NONE ? undefined : placeId,
+    };
+
+    setLoading(true);
+    try {
+      if (event) {
+        await updateEvent(event.id, data);
+      } else {
+        await createEvent(data);
+      }
+      toast.success('Event saved');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to save event');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">{event ? 'Edit Event' : 'Add Event'}</DialogTitle>
+          <DialogDescription>
+            Record something that happens in the story.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="event-title">Title *</Label>
+              <Input
+                id="event-title"
+                placeholder="e.g., The burning of the troupe"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="flex gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="event-date">In-world date</Label>
+                <Input
+                  id="event-date"
+                  placeholder="e.g., Spring, Year 3"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event-chapter">Chapter</Label>
+                <ChapterInput id="event-chapter" value={chapter} onChange={setChapter} className="w-24" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-description">Description</Label>
+              <Textarea
+                id="event-description"
+                rows={3}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Characters</Label>
+              <EntityLinkPicker
+                options={characters.map(toCharacterOption)}
+                value={characterIds}
+                onChange={setCharacterIds}
+                placeholder="Add character"
+                emptyText="No characters found."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select value={placeId} onValueChange={setPlaceId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No location</SelectItem>
+                  {places.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!title.trim() || loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,315 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Edit, ImagePlus, MapPin, Map as MapIcon, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ZoomControls } from '@/components/ZoomControls';
+import { useNovel } from '@/contexts/NovelContext';
+import { useImage } from '@/hooks/use-image';
+import { usePanZoom } from '@/hooks/use-pan-zoom';
+import { imageDB } from '@/lib/database';
+import { clampPin, getVisiblePins } from '@/lib/maps';
+import { isSpoiler } from '@/lib/spoilers';
+import { Place, WorldMap } from '@/types/novel';
+import { toast } from 'sonner';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const PIN_RADIUS = 7;
+
+export const WorldMaps: React.FC = () => {
+  const { currentNovel, maps, createMap, updateMap, deleteMap } = useNovel();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!currentNovel) return null;
+
+  const map = maps.find(m => m.id === selectedId) ?? maps[0];
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file || !file.type.startsWith('image/')) return;
+
+    const name = prompt('Map name:', maps.length === 0 ? 'World' : '');
+    if (!name?.trim()) return;
+
+    setUploading(true);
+    let imageId: string | undefined;
+    try {
+      imageId = await imageDB.save(file);
+      const created = await createMap({
+        novelId: currentNovel.id,
+        name: name.trim(),
+        imageId,
+        pins: [],
+        order: maps.length,
+      });
+      setSelectedId(created.id);
+    } catch (error) {
+      // Drop the use the map would have held, so the image isn't left behind
+      if (imageId) await imageDB.delete(imageId).catch(() => undefined);
+      toast.error('Failed to upload map');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRename = async () => {
+    const name = prompt('Map name:', map.name);
+    if (name?.trim()) await updateMap(map.id, { name: name.trim() });
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete the map "${map.name}"? Its pins are removed; the places themselves are kept.`)) {
+      await deleteMap(map.id);
+      setSelectedId(null);
+      toast.success('Map deleted');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {maps.length > 1 && (
+          <Select value={map.id} onValueChange={setSelectedId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {maps.map((m) => (
+                <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {maps.length === 1 && <h2 className="font-display text-lg font-semibold">{map.name}</h2>}
+        {map && (
+          <>
+            <Button variant="ghost" size="icon" onClick={handleRename} aria-label="Rename map">
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handleDelete} className="text-destructive" aria-label="Delete map">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        <input ref={fileInputRef} type="file" accept="image/*" onChange={handleUpload} className="hidden" />
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto gap-2"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+        >
+          <ImagePlus className="h-4 w-4" />
+          {uploading ? 'Uploading...' : 'Add Map'}
+        </Button>
+      </div>
+
+      {map ? (
+        <MapCanvas key={map.id} map={map} />
+      ) : (
+        <div className="flex flex-col items-center py-16 text-center">
+          <div className="mb-4 rounded-full bg-primary/10 p-4">
+            <MapIcon className="h-8 w-8 text-primary" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No maps yet</h3>
+          <p className="text-muted-foreground mb-4">Upload a map image, then pin your places on it</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Keyed by map, so switching maps starts with a fresh view
+const MapCanvas: React.FC<{ map: WorldMap }> = ({ map }) => {
+  const navigate = useNavigate();
+  const { currentNovel, places, updateMap } = useNovel();
+  const { svgRef, viewport, transform, handlers, wasDragged, clientToContent, zoomBy, reset } = usePanZoom({
+    width: WIDTH,
+    height: HEIGHT,
+    maxScale: 8,
+  });
+  const src = useImage(map.imageId);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [pinning, setPinning] = useState<Place | null>(null);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  // The image's own proportions decide how it fits the view
+  useEffect(() => {
+    if (!src) return;
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = src;
+  }, [src]);
+
+  if (!currentNovel) return null;
+
+  const fit = size ? Math.min(WIDTH / size.width, HEIGHT / size.height) : 1;
+  const drawWidth = size ? size.width * fit : WIDTH;
+  const drawHeight = size ? size.height * fit : HEIGHT;
+
+  const visiblePins = getVisiblePins(currentNovel, map, places);
+  const hiddenCount = map.pins.length - visiblePins.length;
+  // Only places the reader has reached can be pinned, so names never leak
+  const pinnable = places.filter(p => !isSpoiler(currentNovel, p.introducedInChapter));
+  const pinnedIds = new Set(map.pins.map(p => p.placeId));
+
+  const handleMapClick = async (e: React.MouseEvent<SVGImageElement>) => {
+    if (!pinning || wasDragged()) return;
+    const point = clientToContent(e.clientX, e.clientY);
+    const x = clampPin((point.x + drawWidth / 2) / drawWidth);
+    const y = clampPin((point.y + drawHeight / 2) / drawHeight);
+    const pins = [...map.pins.filter(p => p.placeId !== pinning.id), { placeId: pinning.id, x, y }];
+    await updateMap(map.id, { pins });
+    setPinning(null);
+  };
+
+  const removePin = async (placeId: string) => {
+    await updateMap(map.id, { pins: map.pins.filter(p => p.placeId !== placeId) });
+  };
+
+  const handlePinClick = (placeId: string) => {
+    if (wasDragged() || pinning) return;
+    navigate(`/novel/${currentNovel.id}/place/${placeId}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2" disabled={pinnable.length === 0}>
+              <MapPin className="h-4 w-4" />
+              Pin a Place
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-0" align="start">
+            <Command>
+              <CommandInput placeholder="Search places..." />
+              <CommandList>
+                <CommandEmpty>No places found.</CommandEmpty>
+                <CommandGroup>
+                  {pinnable.map((place) => (
+                    <CommandItem
+                      key={place.id}
+                      value={`${place.name} ${place.id}`}
+                      onSelect={() => {
+                        setPinning(place);
+                        setPickerOpen(false);
+                      }}
+                    >
+                      {place.name}
+                      {pinnedIds.has(place.id) && <span className="ml-auto text-xs text-muted-foreground">Move</span>}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+        {pinning && (
+          <div className="flex items-center gap-2 rounded-md bg-primary/10 px-3 py-1 text-sm">
+            Click the map to pin {pinning.name}
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setPinning(null)} aria-label="Cancel pinning">
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="relative overflow-hidden rounded-lg border bg-muted">
+        <svg
+          ref={svgRef}
+          viewBox={`${-WIDTH / 2} ${-HEIGHT / 2} ${WIDTH} ${HEIGHT}`}
+          className={`h-[65vh] w-full touch-none select-none ${pinning ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
+          {...handlers}
+        >
+          <g transform={transform}>
+            {src && (
+              <image
+                href={src}
+                x={-drawWidth / 2}
+                y={-drawHeight / 2}
+                width={drawWidth}
+                height={drawHeight}
+                onClick={handleMapClick}
+              />
+            )}
+            {visiblePins.map(({ pin, place }) => (
+              // Pins keep the same on-screen size at any zoom
+              <g
+                key={place.id}
+                transform={`translate(${(pin.x - 0.5) * drawWidth} ${(pin.y - 0.5) * drawHeight}) scale(${1 / viewport.scale})`}
+                className="cursor-pointer"
+                onClick={() => handlePinClick(place.id)}
+              >
+                <circle r={PIN_RADIUS} fill="hsl(var(--primary))" stroke="hsl(var(--background))" strokeWidth={2} />
+                <text
+                  y={-PIN_RADIUS - 6}
+                  textAnchor="middle"
+                  fontSize={12}
+                  fontWeight={600}
+                  fill="hsl(var(--foreground))"
+                  stroke="hsl(var(--background))"
+                  strokeWidth={3}
+                  paintOrder="stroke"
+                  className="pointer-events-none"
+                >
+                  {place.name}
+                </text>
+              </g>
+            ))}
+          </g>
+        </svg>
+
+        <ZoomControls onZoom={zoomBy} onReset={reset} />
+      </div>
+
+      {(visiblePins.length > 0 || hiddenCount > 0) && (
+        <div className="space-y-2">
+          {visiblePins.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {visiblePins.map(({ place }) => (
+                <li key={place.id} className="flex items-center gap-1 rounded-full border pl-3 text-sm">
+                  {place.name}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 rounded-full"
+                    onClick={() => removePin(place.id)}
+                    aria-label={`Unpin ${place.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {hiddenCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {hiddenCount} {hiddenCount === 1 ? 'pin is' : 'pins are'} hidden until you reach later chapters
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
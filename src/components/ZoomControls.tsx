@@ -0,0 +1,23 @@
+import React from 'react';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ZoomControlsProps {
+  onZoom: (factor: number) => void;
+  onReset: () => void;
+}
+
+// Overlay buttons for views driven by usePanZoom
+export const ZoomControls: React.FC<ZoomControlsProps> = ({ onZoom, onReset }) => (
+  <div className="absolute right-3 top-3 flex flex-col gap-1">
+    <Button variant="secondary" size="icon" className="h-8 w-8" onClick={() => onZoom(1.25)}>
+      <ZoomIn className="h-4 w-4" />
+    </Button>
+    <Button variant="secondary" size="icon" className="h-8 w-8" onClick={() => onZoom(0.8)}>
+      <ZoomOut className="h-4 w-4" />
+    </Button>
+    <Button variant="secondary" size="icon" className="h-8 w-8" onClick={onReset}>
+      <Maximize2 className="h-4 w-4" />
+    </Button>
+  </div>
+);
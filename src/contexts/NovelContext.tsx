@@ -1,6 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { Novel, Character, Place, Note } from '@/types/novel';
-import { novelDB, characterDB, placeDB, noteDB } from '@/lib/database';
+import { Novel, Character, Place, Note, Relationship, Tag, Chapter, StoryEvent, Faction, Item, GlossaryTerm, CustomEntityType, CustomEntity, WorldMap } from '@/types/novel';
+import { novelDB, characterDB, placeDB, noteDB, relationshipDB, tagDB, chapterDB, eventDB, factionDB, itemDB, glossaryDB, customTypeDB, customEntityDB, mapDB } from '@/lib/database';
+import { sortChapters } from '@/lib/chapters';
+import { sortEvents } from '@/lib/timeline';
+import { sortGlossary } from '@/lib/glossary';
+import { sortCustomEntities, sortCustomTypes } from '@/lib/customEntities';
+import { sortMaps } from '@/lib/maps';
 
 interface NovelContextType {
   novels: Novel[];
@@ -8,6 +13,16 @@ interface NovelContextType {
   characters: Character[];
   places: Place[];
   notes: Note[];
+  relationships: Relationship[];
+  tags: Tag[];
+  chapters: Chapter[];
+  events: StoryEvent[];
+  factions: Faction[];
+  items: Item[];
+  glossary: GlossaryTerm[];
+  customTypes: CustomEntityType[];
+  customEntities: CustomEntity[];
+  maps: WorldMap[];
   loading: boolean;
   
   // Novel operations
@@ -31,6 +46,57 @@ interface NovelContextType {
   createNote: (data: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Note>;
   updateNote: (id: string, data: Partial<Note>) => Promise<void>;
   deleteNote: (id: string) => Promise<void>;
+  
+  // Relationship operations
+  createRelationship: (data: Omit<Relationship, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Relationship>;
+  updateRelationship: (id: string, data: Partial<Relationship>) => Promise<void>;
+  deleteRelationship: (id: string) => Promise<void>;
+  
+  // Tag operations
+  createTag: (data: Omit<Tag, 'id' | 'order' | 'createdAt' | 'updatedAt'>) => Promise<Tag>;
+  updateTag: (id: string, data: Partial<Tag>) => Promise<void>;
+  reorderTags: (ids: string[]) => Promise<void>;
+  deleteTag: (id: string) => Promise<void>;
+  
+  // Chapter operations
+  createChapter: (data: Omit<Chapter, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Chapter>;
+  updateChapter: (id: string, data: Partial<Chapter>) => Promise<void>;
+  deleteChapter: (id: string) => Promise<void>;
+  
+  // Timeline event operations
+  createEvent: (data: Omit<StoryEvent, 'id' | 'createdAt' | 'updatedAt'>) => Promise<StoryEvent>;
+  updateEvent: (id: string, data: Partial<StoryEvent>) => Promise<void>;
+  deleteEvent: (id: string) => Promise<void>;
+  
+  // Faction operations
+  createFaction: (data: Omit<Faction, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Faction>;
+  updateFaction: (id: string, data: Partial<Faction>) => Promise<void>;
+  deleteFaction: (id: string) => Promise<void>;
+
+  // Item operations
+  createItem: (data: Omit<Item, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Item>;
+  updateItem: (id: string, data: Partial<Item>) => Promise<void>;
+  deleteItem: (id: string) => Promise<void>;
+
+  // Glossary operations
+  createGlossaryTerm: (data: Omit<GlossaryTerm, 'id' | 'createdAt' | 'updatedAt'>) => Promise<GlossaryTerm>;
+  updateGlossaryTerm: (id: string, data: Partial<GlossaryTerm>) => Promise<void>;
+  deleteGlossaryTerm: (id: string) => Promise<void>;
+
+  // Custom entity type operations
+  createCustomType: (data: Omit<CustomEntityType, 'id' | 'createdAt' | 'updatedAt'>) => Promise<CustomEntityType>;
+  updateCustomType: (id: string, data: Partial<CustomEntityType>) => Promise<void>;
+  deleteCustomType: (id: string) => Promise<void>;
+
+  // Custom entity operations
+  createCustomEntity: (data: Omit<CustomEntity, 'id' | 'createdAt' | 'updatedAt'>) => Promise<CustomEntity>;
+  updateCustomEntity: (id: string, data: Partial<CustomEntity>) => Promise<void>;
+  deleteCustomEntity: (id: string) => Promise<void>;
+
+  // World map operations
+  createMap: (data: Omit<WorldMap, 'id' | 'createdAt' | 'updatedAt'>) => Promise<WorldMap>;
+  updateMap: (id: string, data: Partial<WorldMap>) => Promise<void>;
+  deleteMap: (id: string) => Promise<void>;
 }
 
 const NovelContext = createContext<NovelContextType | null>(null);
@@ -49,6 +115,16 @@ export const NovelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const [characters, setCharacters] = useState<Character[]>([]);
   const [places, setPlaces] = useState<Place[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
+  const [relationships, setRelationships] = useState<Relationship[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [events, setEvents] = useState<StoryEvent[]>([]);
+  const [factions, setFactions] = useState<Faction[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>([]);
+  const [customTypes, setCustomTypes] = useState<CustomEntityType[]>([]);
+  const [customEntities, setCustomEntities] = useState<CustomEntity[]>([]);
+  const [maps, setMaps] = useState<WorldMap[]>([]);
   const [loading, setLoading] = useState(true);
 
   const loadNovels = useCallback(async () => {
@@ -64,14 +140,34 @@ export const NovelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   }, []);
 
   const loadNovelData = useCallback(async (novelId: string) => {
-    const [chars, pls, nts] = await Promise.all([
+    const [chars, pls, nts, rels, tgs, chs, evs, fcs, its, gls, cts, ces, mps] = await Promise.all([
       characterDB.getByNovel(novelId),
       placeDB.getByNovel(novelId),
       noteDB.getByNovel(novelId),
+      relationshipDB.getByNovel(novelId),
+      tagDB.getByNovel(novelId),
+      chapterDB.getByNovel(novelId),
+      eventDB.getByNovel(novelId),
+      factionDB.getByNovel(novelId),
+      itemDB.getByNovel(novelId),
+      glossaryDB.getByNovel(novelId),
+      customTypeDB.getByNovel(novelId),
+      customEntityDB.getByNovel(novelId),
+      mapDB.getByNovel(novelId),
     ]);
     setCharacters(chars);
     setPlaces(pls);
     setNotes(nts);
+    setRelationships(rels);
+    setTags(tgs);
+    setChapters(chs);
+    setEvents(evs);
+    setFactions(fcs);
+    setItems(its);
+    setGlossary(sortGlossary(gls));
+    setCustomTypes(sortCustomTypes(cts));
+    setCustomEntities(sortCustomEntities(ces));
+    setMaps(sortMaps(mps));
   }, []);
 
   const selectNovel = useCallback(async (id: string | null) => {
@@ -80,6 +176,16 @@ export const NovelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       setCharacters([]);
       setPlaces([]);
       setNotes([]);
+      setRelationships([]);
+      setTags([]);
+      setChapters([]);
+      setEvents([]);
+      setFactions([]);
+      setItems([]);
+      setGlossary([]);
+      setCustomTypes([]);
+      setCustomEntities([]);
+      setMaps([]);
       return;
     }
 
@@ -114,46 +220,87 @@ export const NovelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       setCharacters([]);
       setPlaces([]);
       setNotes([]);
+      setRelationships([]);
+      setTags([]);
+      setChapters([]);
+      setEvents([]);
+      setFactions([]);
+      setItems([]);
+      setGlossary([]);
+      setCustomTypes([]);
+      setCustomEntities([]);
+      setMaps([]);
     }
   }, [currentNovel]);
 
   // Character operations
+  // Link changes are mirrored onto other records by the database layer, so
+  // whenever links are touched the novel's data is reloaded as a whole.
+  // Names are what notes link by, so new and renamed entries reload notes.
   const createCharacter = useCallback(async (data: Omit<Character, 'id' | 'createdAt' | 'updatedAt'>) => {
     const character = await characterDB.create(data);
-    setCharacters(prev => [...prev, character]);
+    if (character.linkedCharacterIds.length > 0 || character.linkedPlaceIds.length > 0) {
+      await loadNovelData(character.novelId);
+    } else {
+      setCharacters(prev => [...prev, character]);
+      setNotes(await noteDB.getByNovel(character.novelId));
+    }
     return character;
-  }, []);
+  }, [loadNovelData]);
 
   const updateCharacter = useCallback(async (id: string, data: Partial<Character>) => {
     const updated = await characterDB.update(id, data);
     if (updated) {
-      setCharacters(prev => prev.map(c => c.id === id ? updated : c));
+      if (data.linkedCharacterIds || data.linkedPlaceIds) {
+        await loadNovelData(updated.novelId);
+      } else {
+        setCharacters(prev => prev.map(c => c.id === id ? updated : c));
+        if (data.name !== undefined || data.aliases !== undefined) {
+          setNotes(await noteDB.getByNovel(updated.novelId));
+        }
+      }
     }
-  }, []);
+  }, [loadNovelData]);
 
   const deleteCharacter = useCallback(async (id: string) => {
+    const character = await characterDB.get(id);
     await characterDB.delete(id);
-    setCharacters(prev => prev.filter(c => c.id !== id));
-  }, []);
+    if (character) {
+      await loadNovelData(character.novelId);
+    }
+  }, [loadNovelData]);
 
   // Place operations
   const createPlace = useCallback(async (data: Omit<Place, 'id' | 'createdAt' | 'updatedAt'>) => {
     const place = await placeDB.create(data);
-    setPlaces(prev => [...prev, place]);
+    if (place.linkedCharacterIds.length > 0) {
+      await loadNovelData(place.novelId);
+    } else {
+      setPlaces(prev => [...prev, place]);
+      setNotes(await noteDB.getByNovel(place.novelId));
+    }
     return place;
-  }, []);
+  }, [loadNovelData]);
 
   const updatePlace = useCallback(async (id: string, data: Partial<Place>) => {
     const updated = await placeDB.update(id, data);
     if (updated) {
-      setPlaces(prev => prev.map(p => p.id === id ? updated : p));
+      if (data.linkedCharacterIds) {
+        await loadNovelData(updated.novelId);
+      } else {
+        setPlaces(prev => prev.map(p => p.id === id ? updated : p));
+        if (data.name !== undefined) setNotes(await noteDB.getByNovel(updated.novelId));
+      }
     }
-  }, []);
+  }, [loadNovelData]);
 
   const deletePlace = useCallback(async (id: string) => {
+    const place = await placeDB.get(id);
     await placeDB.delete(id);
-    setPlaces(prev => prev.filter(p => p.id !== id));
-  }, []);
+    if (place) {
+      await loadNovelData(place.novelId);
+    }
+  }, [loadNovelData]);
 
   // Note operations
   const createNote = useCallback(async (data: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>) => {
@@ -174,6 +321,232 @@ export const NovelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     setNotes(prev => prev.filter(n => n.id !== id));
   }, []);
 
+  // Relationship operations
+  const createRelationship = useCallback(async (data: Omit<Relationship, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const relationship = await relationshipDB.create(data);
+    setRelationships(prev => [...prev, relationship]);
+    return relationship;
+  }, []);
+
+  const updateRelationship = useCallback(async (id: string, data: Partial<Relationship>) => {
+    const updated = await relationshipDB.update(id, data);
+    if (updated) {
+      setRelationships(prev => prev.map(r => r.id === id ? updated : r));
+    }
+  }, []);
+
+  const deleteRelationship = useCallback(async (id: string) => {
+    await relationshipDB.delete(id);
+    setRelationships(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  // Tag operations
+  const createTag = useCallback(async (data: Omit<Tag, 'id' | 'order' | 'createdAt' | 'updatedAt'>) => {
+    const tag = await tagDB.create(data);
+    setTags(prev => [...prev, tag]);
+    return tag;
+  }, []);
+
+  const updateTag = useCallback(async (id: string, data: Partial<Tag>) => {
+    const updated = await tagDB.update(id, data);
+    if (updated) {
+      setTags(prev => prev.map(t => t.id === id ? updated : t));
+    }
+  }, []);
+
+  const reorderTags = useCallback(async (ids: string[]) => {
+    await tagDB.reorder(ids);
+    setTags(prev => ids
+      .map((id, order) => {
+        const tag = prev.find(t => t.id === id);
+        return tag && { ...tag, order };
+      })
+      .filter((t): t is Tag => !!t));
+  }, []);
+
+  const deleteTag = useCallback(async (id: string) => {
+    const tag = tags.find(t => t.id === id);
+    await tagDB.delete(id);
+    if (tag) {
+      await loadNovelData(tag.novelId);
+    }
+  }, [tags, loadNovelData]);
+
+  // Chapter operations
+  // Kept in reading order so consumers can list them as-is
+  const createChapter = useCallback(async (data: Omit<Chapter, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const chapter = await chapterDB.create(data);
+    setChapters(prev => sortChapters([...prev, chapter]));
+    return chapter;
+  }, []);
+
+  const updateChapter = useCallback(async (id: string, data: Partial<Chapter>) => {
+    const updated = await chapterDB.update(id, data);
+    if (updated) {
+      setChapters(prev => sortChapters(prev.map(c => c.id === id ? updated : c)));
+    }
+  }, []);
+
+  const deleteChapter = useCallback(async (id: string) => {
+    await chapterDB.delete(id);
+    setChapters(prev => prev.filter(c => c.id !== id));
+  }, []);
+
+  // Timeline event operations
+  const createEvent = useCallback(async (data: Omit<StoryEvent, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const event = await eventDB.create(data);
+    setEvents(prev => sortEvents([...prev, event]));
+    return event;
+  }, []);
+
+  const updateEvent = useCallback(async (id: string, data: Partial<StoryEvent>) => {
+    const updated = await eventDB.update(id, data);
+    if (updated) {
+      setEvents(prev => sortEvents(prev.map(e => e.id === id ? updated : e)));
+    }
+  }, []);
+
+  const deleteEvent = useCallback(async (id: string) => {
+    await eventDB.delete(id);
+    setEvents(prev => prev.filter(e => e.id !== id));
+  }, []);
+
+  // Faction operations
+  const createFaction = useCallback(async (data: Omit<Faction, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const faction = await factionDB.create(data);
+    setFactions(prev => [...prev, faction]);
+    return faction;
+  }, []);
+
+  const updateFaction = useCallback(async (id: string, data: Partial<Faction>) => {
+    const updated = await factionDB.update(id, data);
+    if (updated) {
+      setFactions(prev => prev.map(f => f.id === id ? updated : f));
+    }
+  }, []);
+
+  // Sub-factions and entry links are detached by the database layer, so reload them all
+  const deleteFaction = useCallback(async (id: string) => {
+    const faction = await factionDB.get(id);
+    await factionDB.delete(id);
+    if (faction) {
+      setFactions(await factionDB.getByNovel(faction.novelId));
+      setCustomEntities(sortCustomEntities(await customEntityDB.getByNovel(faction.novelId)));
+    }
+  }, []);
+
+  // Item operations
+  const createItem = useCallback(async (data: Omit<Item, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const item = await itemDB.create(data);
+    setItems(prev => [...prev, item]);
+    return item;
+  }, []);
+
+  const updateItem = useCallback(async (id: string, data: Partial<Item>) => {
+    const updated = await itemDB.update(id, data);
+    if (updated) {
+      setItems(prev => prev.map(i => i.id === id ? updated : i));
+    }
+  }, []);
+
+  // Links to the item from entries are removed by the database layer, so reload those
+  const deleteItem = useCallback(async (id: string) => {
+    const item = await itemDB.get(id);
+    await itemDB.delete(id);
+    setItems(prev => prev.filter(i => i.id !== id));
+    if (item) {
+      setCustomEntities(sortCustomEntities(await customEntityDB.getByNovel(item.novelId)));
+    }
+  }, []);
+
+  // Glossary operations
+  const createGlossaryTerm = useCallback(async (data: Omit<GlossaryTerm, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const term = await glossaryDB.create(data);
+    setGlossary(prev => sortGlossary([...prev, term]));
+    return term;
+  }, []);
+
+  const updateGlossaryTerm = useCallback(async (id: string, data: Partial<GlossaryTerm>) => {
+    const updated = await glossaryDB.update(id, data);
+    if (updated) {
+      setGlossary(prev => sortGlossary(prev.map(t => t.id === id ? updated : t)));
+    }
+  }, []);
+
+  const deleteGlossaryTerm = useCallback(async (id: string) => {
+    await glossaryDB.delete(id);
+    setGlossary(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  // Custom entity type operations
+  const createCustomType = useCallback(async (data: Omit<CustomEntityType, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const type = await customTypeDB.create(data);
+    setCustomTypes(prev => sortCustomTypes([...prev, type]));
+    return type;
+  }, []);
+
+  // Entries of the type may lose values for fields that were removed, so reload them
+  const updateCustomType = useCallback(async (id: string, data: Partial<CustomEntityType>) => {
+    const updated = await customTypeDB.update(id, data);
+    if (updated) {
+      setCustomTypes(prev => sortCustomTypes(prev.map(t => t.id === id ? updated : t)));
+      setCustomEntities(sortCustomEntities(await customEntityDB.getByNovel(updated.novelId)));
+    }
+  }, []);
+
+  // Entries of the type go with it, and links to them from other entries are
+  // removed by the database layer, so reload the rest
+  const deleteCustomType = useCallback(async (id: string) => {
+    const type = await customTypeDB.get(id);
+    await customTypeDB.delete(id);
+    setCustomTypes(prev => prev.filter(t => t.id !== id));
+    if (type) {
+      setCustomEntities(sortCustomEntities(await customEntityDB.getByNovel(type.novelId)));
+    }
+  }, []);
+
+  // Custom entity operations
+  const createCustomEntity = useCallback(async (data: Omit<CustomEntity, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const entity = await customEntityDB.create(data);
+    setCustomEntities(prev => sortCustomEntities([...prev, entity]));
+    return entity;
+  }, []);
+
+  const updateCustomEntity = useCallback(async (id: string, data: Partial<CustomEntity>) => {
+    const updated = await customEntityDB.update(id, data);
+    if (updated) {
+      setCustomEntities(prev => sortCustomEntities(prev.map(e => e.id === id ? updated : e)));
+    }
+  }, []);
+
+  // Links to the entry from other entries are removed by the database layer, so reload them all
+  const deleteCustomEntity = useCallback(async (id: string) => {
+    const entity = await customEntityDB.get(id);
+    await customEntityDB.delete(id);
+    if (entity) {
+      setCustomEntities(sortCustomEntities(await customEntityDB.getByNovel(entity.novelId)));
+    }
+  }, []);
+
+  // World map operations
+  const createMap = useCallback(async (data: Omit<WorldMap, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const map = await mapDB.create(data);
+    setMaps(prev => sortMaps([...prev, map]));
+    return map;
+  }, []);
+
+  const updateMap = useCallback(async (id: string, data: Partial<WorldMap>) => {
+    const updated = await mapDB.update(id, data);
+    if (updated) {
+      setMaps(prev => sortMaps(prev.map(m => m.id === id ? updated : m)));
+    }
+  }, []);
+
+  const deleteMap = useCallback(async (id: string) => {
+    await mapDB.delete(id);
+    setMaps(prev => prev.filter(m => m.id !== id));
+  }, []);
+
   useEffect(() => {
     loadNovels();
   }, [loadNovels]);
@@ -186,6 +559,16 @@ export const NovelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         characters,
         places,
         notes,
+        relationships,
+        tags,
+        chapters,
+        events,
+        factions,
+        items,
+        glossary,
+        customTypes,
+        customEntities,
+        maps,
         loading,
         loadNovels,
         selectNovel,
@@ -201,6 +584,37 @@ export const NovelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         createNote,
         updateNote,
         deleteNote,
+        createRelationship,
+        updateRelationship,
+        deleteRelationship,
+        createTag,
+        updateTag,
+        reorderTags,
+        deleteTag,
+        createChapter,
+        updateChapter,
+        deleteChapter,
+        createEvent,
+        updateEvent,
+        deleteEvent,
+        createFaction,
+        updateFaction,
+        deleteFaction,
+        createItem,
+        updateItem,
+        deleteItem,
+        createGlossaryTerm,
+        updateGlossaryTerm,
+        deleteGlossaryTerm,
+        createCustomType,
+        updateCustomType,
+        deleteCustomType,
+        createCustomEntity,
+        updateCustomEntity,
+        deleteCustomEntity,
+        createMap,
+        updateMap,
+        deleteMap,
       }}
     >
       {children}
@@ -0,0 +1,31 @@
+import * as React from "react";
+import { imageDB } from "@/lib/database";
+
+export type ImageSize = "full" | "thumbnail";
+
+// An object URL for the stored image, revoked once it is no longer shown
+export function useImage(id: string | undefined, size: ImageSize = "full") {
+  const [url, setUrl] = React.useState<string | undefined>(undefined);
+
+  React.useEffect(() => {
+    if (!id) {
+      setUrl(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    let objectUrl: string | undefined;
+    const load = size === "thumbnail" ? imageDB.getThumbnail(id) : imageDB.get(id);
+    load.then((blob) => {
+      if (cancelled) return;
+      objectUrl = blob && URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id, size]);
+
+  return url;
+}
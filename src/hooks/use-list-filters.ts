@@ -0,0 +1,16 @@
+import * as React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseListFilters, writeListFilters } from '@/lib/listFilters';
+import { ListFilters } from '@/types/novel';
+
+// Dashboard list filters, kept in the URL so they survive reloads and back/forward
+export function useListFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = React.useMemo(() => parseListFilters(searchParams), [searchParams]);
+
+  const setFilters = React.useCallback((next: ListFilters) => {
+    setSearchParams(params => writeListFilters(params, next), { replace: true });
+  }, [setSearchParams]);
+
+  return [filters, setFilters] as const;
+}
@@ -0,0 +1,118 @@
+import * as React from 'react';
+
+export interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface PanZoomOptions {
+  width: number; // viewBox size; the viewBox is centred on the origin
+  height: number;
+  minScale?: number;
+  maxScale?: number;
+}
+
+const DRAG_THRESHOLD = 4;
+const INITIAL_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 };
+
+// Wheel/drag zooming and panning for an SVG whose content sits in a
+// <g transform={transform}>
+export function usePanZoom({ width, height, minScale = 0.2, maxScale = 4 }: PanZoomOptions) {
+  const svgRef = React.useRef<SVGSVGElement>(null);
+  const [viewport, setViewport] = React.useState<Viewport>(INITIAL_VIEWPORT);
+  const dragRef = React.useRef<{ startX: number; startY: number; origin: Viewport; moved: boolean } | null>(null);
+
+  const clampScale = React.useCallback(
+    (scale: number) => Math.min(maxScale, Math.max(minScale, scale)),
+    [minScale, maxScale]
+  );
+
+  // Converts a client-space delta into viewBox units
+  const clientToViewBox = (dx: number, dy: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { dx, dy };
+    const ratio = Math.max(width / rect.width, height / rect.height);
+    return { dx: dx * ratio, dy: dy * ratio };
+  };
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  React.useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const ratio = Math.max(width / rect.width, height / rect.height);
+      // Pointer position in viewBox coordinates, relative to the centre
+      const px = (e.clientX - rect.left - rect.width / 2) * ratio;
+      const py = (e.clientY - rect.top - rect.height / 2) * ratio;
+      setViewport(v => {
+        const scale = clampScale(v.scale * Math.exp(-e.deltaY * 0.001));
+        const factor = scale / v.scale;
+        return { scale, x: px - (px - v.x) * factor, y: py - (py - v.y) * factor };
+      });
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [width, height, clampScale]);
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { startX: e.clientX, startY: e.clientY, origin: viewport, moved: false };
+  };
+
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rawDx = e.clientX - drag.startX;
+    const rawDy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(rawDx, rawDy) < DRAG_THRESHOLD) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    const { dx, dy } = clientToViewBox(rawDx, rawDy);
+    setViewport({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy });
+  };
+
+  const onPointerUp = () => {
+    // Defer clearing so click handlers can tell a pan from a click
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  // Where a client-space point falls in the content's own coordinates
+  const clientToContent = (clientX: number, clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    const ratio = Math.max(width / rect.width, height / rect.height);
+    const vx = (clientX - rect.left - rect.width / 2) * ratio;
+    const vy = (clientY - rect.top - rect.height / 2) * ratio;
+    return { x: (vx - viewport.x) / viewport.scale, y: (vy - viewport.y) / viewport.scale };
+  };
+
+  // True while the pointer gesture in progress has panned the view
+  const wasDragged = () => !!dragRef.current?.moved;
+
+  const zoomBy = (factor: number) => {
+    setViewport(v => {
+      const scale = clampScale(v.scale * factor);
+      const f = scale / v.scale;
+      return { scale, x: v.x * f, y: v.y * f };
+    });
+  };
+
+  const reset = () => setViewport(INITIAL_VIEWPORT);
+
+  return {
+    svgRef,
+    viewport,
+    transform: `translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`,
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerLeave: onPointerUp },
+    wasDragged,
+    clientToContent,
+    zoomBy,
+    reset,
+  };
+}
@@ -0,0 +1,38 @@
+import { AliasType, Character, CharacterAlias } from '@/types/novel';
+
+export const ALIAS_TYPES: { value: AliasType; label: string }[] = [
+  { value: 'title', label: 'Title' },
+  { value: 'nickname', label: 'Nickname' },
+  { value: 'birth-name', label: 'Birth name' },
+  { value: 'translation', label: 'Translation' },
+  { value: 'romanisation', label: 'Romanisation' },
+  { value: 'spelling', label: 'Alternate spelling' },
+  { value: 'other', label: 'Other' },
+];
+
+export const getAliasTypeLabel = (type: AliasType): string =>
+  ALIAS_TYPES.find(t => t.value === type)?.label ?? type;
+
+export const getAliasNames = (character: Character): string[] =>
+  (character.aliases ?? []).map(a => a.name);
+
+// The character's name followed by all of its aliases
+export const getCharacterNames = (character: Character): string[] => [character.name, ...getAliasNames(character)];
+
+export const matchesCharacter = (character: Character, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  return getCharacterNames(character).some(name => name.toLowerCase().includes(q));
+};
+
+// Picker option that can also be found by any of the character's aliases
+export const toCharacterOption = (character: Character): { id: string; name: string; keywords: string[] } => ({
+  id: character.id,
+  name: character.name,
+  keywords: getAliasNames(character),
+});
+
+// e.g. "Maedre (Nickname, Ademic)"
+export const formatAlias = (alias: CharacterAlias): string => {
+  const notes = [alias.type && getAliasTypeLabel(alias.type), alias.language].filter(Boolean);
+  return notes.length > 0 ? `${alias.name} (${notes.join(', ')})` : alias.name;
+};
@@ -0,0 +1,28 @@
+import { Chapter } from '@/types/novel';
+
+// Orders chapters by volume (chapters without one come first), then by number
+export const sortChapters = (chapters: Chapter[]): Chapter[] =>
+  [...chapters].sort((a, b) => (a.volume ?? 0) - (b.volume ?? 0) || a.number - b.number);
+
+export const formatChapterNumber = (chapter: Pick<Chapter, 'number' | 'volume'>): string =>
+  chapter.volume !== undefined ? `Vol. ${chapter.volume}, Ch. ${chapter.number}` : `Ch. ${chapter.number}`;
+
+export const formatChapterTitle = (chapter: Chapter): string =>
+  chapter.title ? `${formatChapterNumber(chapter)}: ${chapter.title}` : formatChapterNumber(chapter);
+
+// Suggests the number for a new chapter, continuing from the last one
+export const getNextChapterNumber = (chapters: Chapter[]): { number: number; volume?: number } => {
+  const sorted = sortChapters(chapters);
+  const last = sorted[sorted.length - 1];
+  return last ? { number: last.number + 1, volume: last.volume } : { number: 1 };
+};
+
+// Chapters a character or place appears in, in reading order
+export const getAppearances = (
+  chapters: Chapter[],
+  type: 'character' | 'place',
+  id: string
+): Chapter[] => {
+  const field = type === 'character' ? 'characterIds' : 'placeIds';
+  return sortChapters(chapters.filter(c => c[field].includes(id)));
+};
@@ -0,0 +1,31 @@
+import { Character, CharacterStatus, CharacterStatusChange } from '@/types/novel';
+import { sortHistory } from '@/lib/items';
+
+export const CHARACTER_STATUSES: { value: CharacterStatus; label: string }[] = [
+  { value: 'alive', label: 'Alive' },
+  { value: 'injured', label: 'Injured' },
+  { value: 'missing', label: 'Missing' },
+  { value: 'captured', label: 'Captured' },
+  { value: 'dead', label: 'Dead' },
+  { value: 'resurrected', label: 'Resurrected' },
+];
+
+export const getStatusLabel = (status: CharacterStatus): string =>
+  CHARACTER_STATUSES.find(s => s.value === status)?.label ?? status;
+
+export const sortStatusHistory = (history: CharacterStatusChange[]): CharacterStatusChange[] =>
+  sortHistory(history, change => change.chapter);
+
+// The latest change at or before the chapter. Without a chapter (spoilers
+// off) the last recorded change wins.
+export const getStatusAt = (
+  character: Character,
+  chapter: number | undefined
+): CharacterStatusChange | undefined => {
+  const reached = sortStatusHistory(character.statusHistory ?? [])
+    .filter(change => chapter === undefined || change.chapter === undefined || change.chapter <= chapter);
+  return reached[reached.length - 1];
+};
+
+export const isDeadAt = (character: Character, chapter: number | undefined): boolean =>
+  getStatusAt(character, chapter)?.status === 'dead';
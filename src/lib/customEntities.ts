@@ -0,0 +1,159 @@
+import {
+  Character,
+  CustomEntity,
+  CustomEntityType,
+  CustomFieldDef,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomLinkTarget,
+  Faction,
+  Item,
+  Place,
+} from '@/types/novel';
+import { toCharacterOption } from '@/lib/aliases';
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Choice' },
+  { value: 'boolean', label: 'Yes/No' },
+  { value: 'entity-link', label: 'Link' },
+  { value: 'image', label: 'Images' },
+];
+
+// Character and place attributes are plain values: no links or images
+export const ATTRIBUTE_FIELD_TYPES = CUSTOM_FIELD_TYPES.filter(t => t.value !== 'entity-link' && t.value !== 'image');
+
+export const CUSTOM_LINK_TARGETS: { value: Exclude<CustomLinkTarget, 'custom'>; label: string }[] = [
+  { value: 'character', label: 'Characters' },
+  { value: 'place', label: 'Places' },
+  { value: 'faction', label: 'Factions' },
+  { value: 'item', label: 'Items' },
+];
+
+// Custom types show up as dashboard tabs named "type-<id>"
+const CUSTOM_TAB_PREFIX = 'type-';
+
+export const getCustomTab = (typeId: string) => `${CUSTOM_TAB_PREFIX}${typeId}`;
+
+export const parseCustomTab = (tab: string | null): string | undefined =>
+  tab?.startsWith(CUSTOM_TAB_PREFIX) ? tab.slice(CUSTOM_TAB_PREFIX.length) : undefined;
+
+export const sortCustomTypes = (types: CustomEntityType[]): CustomEntityType[] =>
+  [...types].sort((a, b) => a.order - b.order);
+
+export const sortCustomEntities = (entities: CustomEntity[]): CustomEntity[] =>
+  [...entities].sort((a, b) => a.name.localeCompare(b.name));
+
+// Fields whose values are lists of ids
+export const isIdListField = (field: CustomFieldDef) =>
+  field.type === 'entity-link' || field.type === 'image';
+
+export const getIdList = (value: CustomFieldValue | undefined): string[] =>
+  Array.isArray(value) ? value : [];
+
+// Images an entity owns through its image fields
+export const getCustomImageIds = (entity: CustomEntity, type: CustomEntityType | undefined): string[] =>
+  (type?.fields ?? [])
+    .filter(f => f.type === 'image')
+    .flatMap(f => getIdList(entity.values[f.id]));
+
+// True when the value counts as filled in
+export const hasCustomValue = (value: CustomFieldValue | undefined): boolean =>
+  Array.isArray(value) ? value.length > 0 : value !== undefined && value !== '';
+
+const valueTypeOf = (type: CustomFieldType) =>
+  type === 'number' ? 'number' : type === 'boolean' ? 'boolean' : 'string';
+
+// Values that no longer fit their field (an option that was removed, a
+// field whose type changed) are dropped so forms never show stale data
+export const cleanCustomValues = (
+  values: Record<string, CustomFieldValue>,
+  fields: CustomFieldDef[]
+): Record<string, CustomFieldValue> => {
+  const cleaned: Record<string, CustomFieldValue> = {};
+  for (const field of fields) {
+    const value = values[field.id];
+    if (!hasCustomValue(value)) continue;
+    if (isIdListField(field) ? Array.isArray(value) : typeof value === valueTypeOf(field.type)) {
+      if (field.type === 'select' && !field.options?.includes(value as string)) continue;
+      cleaned[field.id] = value;
+    }
+  }
+  return cleaned;
+};
+
+// One-line rendering for cards; link ids are resolved through nameOf
+export const formatCustomValue = (
+  field: CustomFieldDef,
+  value: CustomFieldValue | undefined,
+  nameOf?: (field: CustomFieldDef, id: string) => string | undefined
+): string | null => {
+  if (!hasCustomValue(value)) return null;
+  if (field.type === 'image') {
+    const count = getIdList(value).length;
+    return `${count} ${count === 1 ? 'image' : 'images'}`;
+  }
+  if (field.type === 'entity-link') {
+    const names = getIdList(value).map(id => nameOf?.(field, id)).filter(Boolean);
+    return names.length > 0 ? names.join(', ') : null;
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Options are edited as comma-separated text and split on save
+export interface FieldDraft extends CustomFieldDef {
+  optionsText: string;
+}
+
+export const toFieldDraft = (field: CustomFieldDef): FieldDraft => ({ ...field, optionsText: (field.options ?? []).join(', ') });
+
+export const fromFieldDraft = ({ optionsText, ...field }: FieldDraft): CustomFieldDef => ({
+  id: field.id,
+  name: field.name.trim(),
+  type: field.type,
+  options: field.type === 'select'
+    ? [...new Set(optionsText.split(',').map(o => o.trim()).filter(Boolean))]
+    : undefined,
+  linkTarget: field.type === 'entity-link' ? field.linkTarget ?? 'character' : undefined,
+  linkTypeId: field.type === 'entity-link' && field.linkTarget === 'custom' ? field.linkTypeId : undefined,
+});
+
+// The first problem with a cleaned-up field list, or null when it can be saved
+export const getFieldsError = (fields: CustomFieldDef[]): string | null => {
+  if (fields.some(f => !f.name)) return 'Every field needs a name';
+  if (fields.some(f => f.type === 'select' && f.options!.length === 0)) return 'Choice fields need at least one option';
+  if (fields.some(f => f.linkTarget === 'custom' && !f.linkTypeId)) return 'Pick what each link field points to';
+  return null;
+};
+
+// Everything an entity-link field can point at
+export interface CustomLinkSources {
+  characters: Character[];
+  places: Place[];
+  factions: Faction[];
+  items: Item[];
+  customEntities: CustomEntity[];
+}
+
+export const getCustomLinkOptions = (
+  field: CustomFieldDef,
+  sources: CustomLinkSources
+): { id: string; name: string; keywords?: string[] }[] => {
+  switch (field.linkTarget) {
+    case 'place':
+      return sources.places.map(p => ({ id: p.id, name: p.name }));
+    case 'faction':
+      return sources.factions.map(f => ({ id: f.id, name: f.name }));
+    case 'item':
+      return sources.items.map(i => ({ id: i.id, name: i.name }));
+    case 'custom':
+      return sources.customEntities
+        .filter(e => e.typeId === field.linkTypeId)
+        .map(e => ({ id: e.id, name: e.name }));
+    default:
+      return sources.characters.map(toCharacterOption);
+  }
+};
@@ -1,5 +1,33 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Novel, Character, Place, Note, ExportData } from '@/types/novel';
+import { openDB, DBSchema, IDBPDatabase, IDBPObjectStore, IDBPTransaction, StoreNames } from 'idb';
+import {
+  Novel,
+  Character,
+  Place,
+  Note,
+  Relationship,
+  Tag,
+  Chapter,
+  StoryEvent,
+  Faction,
+  Item,
+  GlossaryTerm,
+  CustomEntityType,
+  CustomEntity,
+  WorldMap,
+  ImageCaptions,
+  StoredImage,
+  ExportData,
+  IntegrityIssue,
+  IntegrityReport,
+  SearchLibrary,
+} from '@/types/novel';
+import { DEFAULT_TAGS } from '@/lib/tags';
+import { sortChapters } from '@/lib/chapters';
+import { sortEvents } from '@/lib/timeline';
+import { cleanCustomValues, getCustomImageIds, getIdList, isIdListField } from '@/lib/customEntities';
+import { blobToDataURL, dataURLToBlob, describeImage, hashBlob } from '@/lib/images';
+import { getAliasNames } from '@/lib/aliases';
+import { getWikiLinkIds } from '@/lib/wikiLinks';
 
 interface NovelCompanionDB extends DBSchema {
   novels: {
@@ -24,51 +52,714 @@ interface NovelCompanionDB extends DBSchema {
   };
   images: {
     key: string;
-    value: { id: string; data: string };
+    value: StoredImage;
+  };
+  relationships: {
+    key: string;
+    value: Relationship;
+    indexes: { 'by-novel': string; 'by-source': string; 'by-target': string };
+  };
+  tags: {
+    key: string;
+    value: Tag;
+    indexes: { 'by-novel': string };
+  };
+  chapters: {
+    key: string;
+    value: Chapter;
+    indexes: { 'by-novel': string };
+  };
+  events: {
+    key: string;
+    value: StoryEvent;
+    indexes: { 'by-novel': string };
+  };
+  factions: {
+    key: string;
+    value: Faction;
+    indexes: { 'by-novel': string };
+  };
+  items: {
+    key: string;
+    value: Item;
+    indexes: { 'by-novel': string };
+  };
+  glossary: {
+    key: string;
+    value: GlossaryTerm;
+    indexes: { 'by-novel': string };
+  };
+  customTypes: {
+    key: string;
+    value: CustomEntityType;
+    indexes: { 'by-novel': string };
+  };
+  customEntities: {
+    key: string;
+    value: CustomEntity;
+    indexes: { 'by-novel': string; 'by-type': string };
+  };
+  maps: {
+    key: string;
+    value: WorldMap;
+    indexes: { 'by-novel': string };
   };
 }
 
 const DB_NAME = 'novel-companion';
-const DB_VERSION = 1;
+const DB_VERSION = 14;
 
 let dbPromise: Promise<IDBPDatabase<NovelCompanionDB>> | null = null;
 
 export const getDB = async (): Promise<IDBPDatabase<NovelCompanionDB>> => {
   if (!dbPromise) {
     dbPromise = openDB<NovelCompanionDB>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        // Novels store
-        const novelStore = db.createObjectStore('novels', { keyPath: 'id' });
-        novelStore.createIndex('by-updated', 'updatedAt');
-
-        // Characters store
-        const characterStore = db.createObjectStore('characters', { keyPath: 'id' });
-        characterStore.createIndex('by-novel', 'novelId');
-        characterStore.createIndex('by-updated', 'updatedAt');
-
-        // Places store
-        const placeStore = db.createObjectStore('places', { keyPath: 'id' });
-        placeStore.createIndex('by-novel', 'novelId');
-        placeStore.createIndex('by-updated', 'updatedAt');
-
-        // Notes store
-        const noteStore = db.createObjectStore('notes', { keyPath: 'id' });
-        noteStore.createIndex('by-novel', 'novelId');
-        noteStore.createIndex('by-updated', 'updatedAt');
-
-        // Images store
-        db.createObjectStore('images', { keyPath: 'id' });
+      async upgrade(db, oldVersion, _newVersion, transaction) {
+        if (oldVersion < 1) {
+          // Novels store
+          const novelStore = db.createObjectStore('novels', { keyPath: 'id' });
+          novelStore.createIndex('by-updated', 'updatedAt');
+
+          // Characters store
+          const characterStore = db.createObjectStore('characters', { keyPath: 'id' });
+          characterStore.createIndex('by-novel', 'novelId');
+          characterStore.createIndex('by-updated', 'updatedAt');
+
+          // Places store
+          const placeStore = db.createObjectStore('places', { keyPath: 'id' });
+          placeStore.createIndex('by-novel', 'novelId');
+          placeStore.createIndex('by-updated', 'updatedAt');
+
+          // Notes store
+          const noteStore = db.createObjectStore('notes', { keyPath: 'id' });
+          noteStore.createIndex('by-novel', 'novelId');
+          noteStore.createIndex('by-updated', 'updatedAt');
+
+          // Images store
+          db.createObjectStore('images', { keyPath: 'id' });
+        }
+
+        if (oldVersion < 2) {
+          // Relationships store
+          const relationshipStore = db.createObjectStore('relationships', { keyPath: 'id' });
+          relationshipStore.createIndex('by-novel', 'novelId');
+          relationshipStore.createIndex('by-source', 'sourceId');
+          relationshipStore.createIndex('by-target', 'targetId');
+
+          // Turn existing character links into untyped relationships
+          const characters = await transaction.objectStore('characters').getAll();
+          for (const relationship of linksToRelationships(characters)) {
+            await relationshipStore.put(relationship);
+          }
+        }
+
+        if (oldVersion < 3) {
+          // Tags store
+          const tagStore = db.createObjectStore('tags', { keyPath: 'id' });
+          tagStore.createIndex('by-novel', 'novelId');
+
+          // Seed each novel's tags and point characters at them
+          const migrated = migrateLegacyTags(
+            await transaction.objectStore('novels').getAll(),
+            await transaction.objectStore('characters').getAll(),
+            await transaction.objectStore('places').getAll(),
+            await transaction.objectStore('notes').getAll()
+          );
+          for (const tag of migrated.tags) await tagStore.put(tag);
+          for (const char of migrated.characters) await transaction.objectStore('characters').put(char);
+          for (const place of migrated.places) await transaction.objectStore('places').put(place);
+          for (const note of migrated.notes) await transaction.objectStore('notes').put(note);
+        }
+
+        if (oldVersion < 4) {
+          // Chapters store
+          const chapterStore = db.createObjectStore('chapters', { keyPath: 'id' });
+          chapterStore.createIndex('by-novel', 'novelId');
+        }
+
+        if (oldVersion < 5) {
+          // Timeline events store
+          const eventStore = db.createObjectStore('events', { keyPath: 'id' });
+          eventStore.createIndex('by-novel', 'novelId');
+        }
+
+        if (oldVersion < 6) {
+          // Factions store
+          const factionStore = db.createObjectStore('factions', { keyPath: 'id' });
+          factionStore.createIndex('by-novel', 'novelId');
+        }
+
+        if (oldVersion < 7) {
+          // Items store
+          const itemStore = db.createObjectStore('items', { keyPath: 'id' });
+          itemStore.createIndex('by-novel', 'novelId');
+        }
+
+        if (oldVersion < 8) {
+          // Glossary store
+          const glossaryStore = db.createObjectStore('glossary', { keyPath: 'id' });
+          glossaryStore.createIndex('by-novel', 'novelId');
+        }
+
+        if (oldVersion < 9) {
+          // User-defined entity types and their entries
+          const customTypeStore = db.createObjectStore('customTypes', { keyPath: 'id' });
+          customTypeStore.createIndex('by-novel', 'novelId');
+          const customEntityStore = db.createObjectStore('customEntities', { keyPath: 'id' });
+          customEntityStore.createIndex('by-novel', 'novelId');
+          customEntityStore.createIndex('by-type', 'typeId');
+        }
+
+        if (oldVersion < 10) {
+          // World maps
+          const mapStore = db.createObjectStore('maps', { keyPath: 'id' });
+          mapStore.createIndex('by-novel', 'novelId');
+        }
+
+        if (oldVersion < 11) {
+          // Base64 data strings become Blobs. Decoding an image is async and
+          // would let the upgrade transaction close, so dimensions and
+          // thumbnails are left for imageDB to fill in on first use.
+          let cursor = await transaction.objectStore('images').openCursor();
+          while (cursor) {
+            const legacy = cursor.value as StoredImage | LegacyImage;
+            if ('data' in legacy) await cursor.update(fromDataURL(legacy.id, legacy.data));
+            cursor = await cursor.continue();
+          }
+        }
+
+        if (oldVersion < 12) {
+          // Images gain reference counts. Existing images keep their ids, as
+          // hashing is async too; only new and imported images are keyed by
+          // content.
+          await recountImageRefs(transaction);
+        }
+
+        if (oldVersion < 13) {
+          // Captions move from the shared image onto the records showing it
+          const captions: ImageCaptions = {};
+          let cursor = await transaction.objectStore('images').openCursor();
+          while (cursor) {
+            const { caption, ...image } = cursor.value as StoredImage & { caption?: string };
+            if (caption) {
+              captions[image.id] = caption;
+              await cursor.update(image);
+            }
+            cursor = await cursor.continue();
+          }
+          if (Object.keys(captions).length > 0) await moveCaptionsToOwners(transaction, captions);
+        }
+
+        if (oldVersion < 14) {
+          // Relationships become the only record of who is connected: links
+          // made since version 2 turn into untyped relationships too
+          const relationshipStore = transaction.objectStore('relationships');
+          const characterStore = transaction.objectStore('characters');
+          const characters = await characterStore.getAll();
+          for (const relationship of linksToRelationships(characters, await relationshipStore.getAll())) {
+            await relationshipStore.put(relationship);
+          }
+          for (const character of characters) {
+            if (character.linkedCharacterIds.length > 0) {
+              await characterStore.put({ ...character, linkedCharacterIds: [] });
+            }
+          }
+        }
       },
     });
   }
   return dbPromise;
 };
 
+// Images before version 11 were stored as data URLs
+interface LegacyImage {
+  id: string;
+  data: string;
+}
+
+const fromDataURL = (id: string, data: string): StoredImage => {
+  const blob = dataURLToBlob(data);
+  return { id, blob, type: blob.type, refs: 0, createdAt: Date.now() };
+};
+
+// Every record that can hold images
+interface ImageOwners {
+  novels: Novel[];
+  characters: Character[];
+  places: Place[];
+  factions: Faction[];
+  items: Item[];
+  customTypes: CustomEntityType[];
+  customEntities: CustomEntity[];
+  maps: WorldMap[];
+}
+
+// One entry per use, so an image used by two records is listed twice
+const listImageRefs = (owners: ImageOwners): string[] => {
+  const typesById = new Map(owners.customTypes.map(t => [t.id, t]));
+  return [
+    ...owners.characters.flatMap(c => c.images),
+    ...owners.places.flatMap(p => p.images),
+    ...owners.factions.flatMap(f => f.images),
+    ...owners.items.flatMap(i => i.images),
+    ...owners.customEntities.flatMap(e => getCustomImageIds(e, typesById.get(e.typeId))),
+    ...owners.maps.map(m => m.imageId),
+    ...owners.novels.flatMap(n => (n.coverImage ? [n.coverImage] : [])),
+  ];
+};
+
+const IMAGE_OWNER_STORES: StoreNames<NovelCompanionDB>[] = [
+  'novels',
+  'characters',
+  'places',
+  'factions',
+  'items',
+  'customTypes',
+  'customEntities',
+  'maps',
+  'images',
+];
+
+// Points image references (and the captions keyed by them) at new ids; a
+// record left holding the same image twice keeps one, with the first caption
+const remapImageIds = (owners: ImageOwners, idMap: Map<string, string>): ImageOwners => {
+  const remap = (ids: string[]) => [...new Set(ids.map(id => idMap.get(id) ?? id))];
+  const remapCaptions = <T extends { captions?: ImageCaptions }>(record: T): T => {
+    if (!record.captions) return record;
+    const captions: ImageCaptions = {};
+    Object.entries(record.captions).forEach(([id, caption]) => {
+      const newId = idMap.get(id) ?? id;
+      if (!(newId in captions)) captions[newId] = caption;
+    });
+    return { ...record, captions };
+  };
+  const typesById = new Map(owners.customTypes.map(t => [t.id, t]));
+  return {
+    ...owners,
+    novels: owners.novels.map(n => (n.coverImage ? { ...n, coverImage: idMap.get(n.coverImage) ?? n.coverImage } : n)),
+    characters: owners.characters.map(c => remapCaptions({ ...c, images: remap(c.images) })),
+    places: owners.places.map(p => remapCaptions({ ...p, images: remap(p.images) })),
+    factions: owners.factions.map(f => remapCaptions({ ...f, images: remap(f.images) })),
+    items: owners.items.map(i => remapCaptions({ ...i, images: remap(i.images) })),
+    customEntities: owners.customEntities.map(e => {
+      const values = { ...e.values };
+      (typesById.get(e.typeId)?.fields ?? [])
+        .filter(f => f.type === 'image' && values[f.id] !== undefined)
+        .forEach(f => { values[f.id] = remap(getIdList(values[f.id])); });
+      return remapCaptions({ ...e, values });
+    }),
+    maps: owners.maps.map(m => ({ ...m, imageId: idMap.get(m.imageId) ?? m.imageId })),
+  };
+};
+
+// Gives each record the captions of the images it shows, keeping any caption
+// it already has. Records with nothing to add come back unchanged.
+const withCaptions = <T extends { captions?: ImageCaptions }>(record: T, imageIds: string[], captions: ImageCaptions): T => {
+  const added = imageIds.filter(id => captions[id] && !record.captions?.[id]);
+  if (added.length === 0) return record;
+  const next = { ...record.captions };
+  added.forEach(id => { next[id] = captions[id]; });
+  return { ...record, captions: next };
+};
+
+const applyImageCaptions = (owners: ImageOwners, captions: ImageCaptions): ImageOwners => {
+  const typesById = new Map(owners.customTypes.map(t => [t.id, t]));
+  return {
+    ...owners,
+    characters: owners.characters.map(c => withCaptions(c, c.images, captions)),
+    places: owners.places.map(p => withCaptions(p, p.images, captions)),
+    factions: owners.factions.map(f => withCaptions(f, f.images, captions)),
+    items: owners.items.map(i => withCaptions(i, i.images, captions)),
+    customEntities: owners.customEntities.map(e =>
+      withCaptions(e, getCustomImageIds(e, typesById.get(e.typeId)), captions)
+    ),
+  };
+};
+
+// Version 13 upgrade: captions stored on images go to every record showing them
+const moveCaptionsToOwners = async (tx: ImageTransaction, captions: ImageCaptions) => {
+  const owners: ImageOwners = {
+    novels: [],
+    characters: await tx.objectStore('characters').getAll(),
+    places: await tx.objectStore('places').getAll(),
+    factions: await tx.objectStore('factions').getAll(),
+    items: await tx.objectStore('items').getAll(),
+    customTypes: await tx.objectStore('customTypes').getAll(),
+    customEntities: await tx.objectStore('customEntities').getAll(),
+    maps: [],
+  };
+  const captioned = applyImageCaptions(owners, captions);
+  const changed = <T>(before: T[], after: T[]) => after.filter((record, index) => record !== before[index]);
+  for (const c of changed(owners.characters, captioned.characters)) await tx.objectStore('characters').put(c);
+  for (const p of changed(owners.places, captioned.places)) await tx.objectStore('places').put(p);
+  for (const f of changed(owners.factions, captioned.factions)) await tx.objectStore('factions').put(f);
+  for (const i of changed(owners.items, captioned.items)) await tx.objectStore('items').put(i);
+  for (const e of changed(owners.customEntities, captioned.customEntities)) await tx.objectStore('customEntities').put(e);
+};
+
+type ImageTransaction = IDBPTransaction<
+  NovelCompanionDB,
+  ArrayLike<StoreNames<NovelCompanionDB>>,
+  'readwrite' | 'versionchange'
+>;
+
+// Sets each image's count from the records that actually use it, deleting
+// images nothing uses any more
+const recountImageRefs = async (tx: ImageTransaction) => {
+  const counts = new Map<string, number>();
+  listImageRefs({
+    novels: await tx.objectStore('novels').getAll(),
+    characters: await tx.objectStore('characters').getAll(),
+    places: await tx.objectStore('places').getAll(),
+    factions: await tx.objectStore('factions').getAll(),
+    items: await tx.objectStore('items').getAll(),
+    customTypes: await tx.objectStore('customTypes').getAll(),
+    customEntities: await tx.objectStore('customEntities').getAll(),
+    maps: await tx.objectStore('maps').getAll(),
+  }).forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+
+  let cursor = await tx.objectStore('images').openCursor();
+  while (cursor) {
+    const refs = counts.get(cursor.key) ?? 0;
+    if (refs === 0) await cursor.delete();
+    else if (cursor.value.refs !== refs) await cursor.update({ ...cursor.value, refs });
+    cursor = await cursor.continue();
+  }
+};
+
+type ImageStore = IDBPObjectStore<NovelCompanionDB, ArrayLike<StoreNames<NovelCompanionDB>>, 'images', 'readwrite'>;
+
+// Drops one use of the image, deleting it once nothing uses it
+const releaseImage = async (store: ImageStore, id: string) => {
+  const record = await store.get(id);
+  if (!record) return;
+  if (record.refs > 1) await store.put({ ...record, refs: record.refs - 1 });
+  else await store.delete(id);
+};
+
 // Generate unique ID
 export const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
+// Builds one untyped, symmetric relationship per linked character pair not
+// already joined by one of the existing relationships
+const linksToRelationships = (characters: Character[], existing: Relationship[] = []): Relationship[] => {
+  const seen = new Set(existing.map(r => [r.sourceId, r.targetId].sort().join('|')));
+  const now = Date.now();
+  const relationships: Relationship[] = [];
+  for (const char of characters) {
+    for (const targetId of char.linkedCharacterIds) {
+      const pair = [char.id, targetId].sort().join('|');
+      if (seen.has(pair)) continue;
+      seen.add(pair);
+      relationships.push({
+        id: generateId(),
+        novelId: char.novelId,
+        sourceId: char.id,
+        targetId,
+        type: 'related',
+        directional: false,
+        notes: '',
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+  return relationships;
+};
+
+const createDefaultTags = (novelId: string): Tag[] => {
+  const now = Date.now();
+  return DEFAULT_TAGS.map((tag, index) => ({
+    id: generateId(),
+    novelId,
+    name: tag.name,
+    color: tag.color,
+    icon: tag.icon,
+    order: index,
+    createdAt: now,
+    updatedAt: now,
+  }));
+};
+
+// Before tags were per-novel records, characters stored built-in tag names
+// ('mc', 'villain', ... and a meaningless 'custom') and places and notes had
+// no tags at all. Seeds the default tags for every novel and maps those names
+// to the new tag ids; a 'Custom' tag is only created where it was used.
+const migrateLegacyTags = (
+  novels: Novel[],
+  characters: Character[],
+  places: Place[],
+  notes: Note[]
+): { tags: Tag[]; characters: Character[]; places: Place[]; notes: Note[] } => {
+  const tags: Tag[] = [];
+  const lookup = new Map<string, Map<string, string>>(); // novelId -> legacy name -> tag id
+
+  for (const novel of novels) {
+    const seeded = createDefaultTags(novel.id);
+    tags.push(...seeded);
+    lookup.set(novel.id, new Map(seeded.map((tag, index) => [DEFAULT_TAGS[index].legacy, tag.id])));
+  }
+
+  const resolve = (novelId: string, legacy: string): string | undefined => {
+    const names = lookup.get(novelId);
+    if (!names) return undefined;
+    if (legacy === 'custom' && !names.has('custom')) {
+      const now = Date.now();
+      const custom: Tag = {
+        id: generateId(),
+        novelId,
+        name: 'Custom',
+        color: '#64748b',
+        order: DEFAULT_TAGS.length,
+        createdAt: now,
+        updatedAt: now,
+      };
+      tags.push(custom);
+      names.set('custom', custom.id);
+    }
+    return names.get(legacy);
+  };
+
+  return {
+    tags,
+    characters: characters.map(c => ({
+      ...c,
+      tags: c.tags.map(t => resolve(c.novelId, t)).filter((id): id is string => !!id),
+    })),
+    places: places.map(p => ({ ...p, tags: p.tags ?? [] })),
+    notes: notes.map(n => ({ ...n, tags: n.tags ?? [] })),
+  };
+};
+
+// Referential integrity
+//
+// Character <-> character and character <-> place links are stored on both
+// sides. Every write that changes links goes through the helpers below, in the
+// same transaction as the write itself, so the two sides never drift apart and
+// deletes never leave dangling ids behind. Note links, chapter appearances,
+// event participants, faction members, item owners/locations and custom
+// entity link fields are one-way (note/chapter/event/faction/item/entry -> entity).
+
+type LinkStore =
+  | 'characters'
+  | 'places'
+  | 'notes'
+  | 'relationships'
+  | 'chapters'
+  | 'events'
+  | 'factions'
+  | 'items'
+  | 'customEntities'
+  | 'maps'
+  | 'images';
+type LinkTransaction = IDBPTransaction<NovelCompanionDB, LinkStore[], 'readwrite'>;
+
+const LINK_STORES: LinkStore[] = [
+  'characters',
+  'places',
+  'notes',
+  'relationships',
+  'chapters',
+  'events',
+  'factions',
+  'items',
+  'customEntities',
+  'maps',
+  'images',
+];
+
+const withId = (ids: string[], id: string) => (ids.includes(id) ? ids : [...ids, id]);
+const withoutId = (ids: string[], id: string) => ids.filter(x => x !== id);
+
+const diffIds = (before: string[], after: string[]) => ({
+  added: after.filter(id => !before.includes(id)),
+  removed: before.filter(id => !after.includes(id)),
+});
+
+type CharacterLinks = Pick<Character, 'linkedCharacterIds' | 'linkedPlaceIds'>;
+
+const NO_CHARACTER_LINKS: CharacterLinks = { linkedCharacterIds: [], linkedPlaceIds: [] };
+
+// Mirrors a character's link changes onto the characters and places it points at
+const syncCharacterBacklinks = async (
+  tx: LinkTransaction,
+  id: string,
+  before: CharacterLinks,
+  after: CharacterLinks
+) => {
+  const now = Date.now();
+  const characterStore = tx.objectStore('characters');
+  const placeStore = tx.objectStore('places');
+
+  const characterDiff = diffIds(before.linkedCharacterIds, after.linkedCharacterIds);
+  for (const otherId of [...characterDiff.added, ...characterDiff.removed]) {
+    const other = otherId !== id ? await characterStore.get(otherId) : undefined;
+    if (!other) continue;
+    const linked = characterDiff.added.includes(otherId);
+    const next = linked ? withId(other.linkedCharacterIds, id) : withoutId(other.linkedCharacterIds, id);
+    if (next.length !== other.linkedCharacterIds.length) {
+      await characterStore.put({ ...other, linkedCharacterIds: next, updatedAt: now });
+    }
+  }
+
+  const placeDiff = diffIds(before.linkedPlaceIds, after.linkedPlaceIds);
+  for (const placeId of [...placeDiff.added, ...placeDiff.removed]) {
+    const place = await placeStore.get(placeId);
+    if (!place) continue;
+    const linked = placeDiff.added.includes(placeId);
+    const next = linked ? withId(place.linkedCharacterIds, id) : withoutId(place.linkedCharacterIds, id);
+    if (next.length !== place.linkedCharacterIds.length) {
+      await placeStore.put({ ...place, linkedCharacterIds: next, updatedAt: now });
+    }
+  }
+};
+
+// Mirrors a place's character link changes onto those characters
+const syncPlaceBacklinks = async (tx: LinkTransaction, id: string, before: string[], after: string[]) => {
+  const now = Date.now();
+  const characterStore = tx.objectStore('characters');
+  const { added, removed } = diffIds(before, after);
+  for (const characterId of [...added, ...removed]) {
+    const character = await characterStore.get(characterId);
+    if (!character) continue;
+    const linked = added.includes(characterId);
+    const next = linked ? withId(character.linkedPlaceIds, id) : withoutId(character.linkedPlaceIds, id);
+    if (next.length !== character.linkedPlaceIds.length) {
+      await characterStore.put({ ...character, linkedPlaceIds: next, updatedAt: now });
+    }
+  }
+};
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+// Notes store the ids their [[links]] resolve to. Adding, renaming or deleting
+// a character or place can change what a name resolves to, so every note in
+// the novel is resolved again.
+const resyncNoteLinks = async (tx: LinkTransaction, novelId: string) => {
+  const characters = await tx.objectStore('characters').index('by-novel').getAll(novelId);
+  const places = await tx.objectStore('places').index('by-novel').getAll(novelId);
+  const noteStore = tx.objectStore('notes');
+  for (const note of await noteStore.index('by-novel').getAll(novelId)) {
+    const links = getWikiLinkIds(note.content, characters, places);
+    if (sameIds(links.linkedCharacterIds, note.linkedCharacterIds) && sameIds(links.linkedPlaceIds, note.linkedPlaceIds)) {
+      continue;
+    }
+    await noteStore.put({ ...note, ...links });
+  }
+};
+
+// Removes every reference to a deleted character or place within its novel
+const stripReferences = async (
+  tx: LinkTransaction,
+  novelId: string,
+  type: 'character' | 'place',
+  id: string
+) => {
+  const now = Date.now();
+  const field = type === 'character' ? 'linkedCharacterIds' : 'linkedPlaceIds';
+
+  const characterStore = tx.objectStore('characters');
+  for (const char of await characterStore.index('by-novel').getAll(novelId)) {
+    if (char[field].includes(id)) {
+      await characterStore.put({ ...char, [field]: withoutId(char[field], id), updatedAt: now });
+    }
+  }
+
+  const placeStore = tx.objectStore('places');
+  for (const place of await placeStore.index('by-novel').getAll(novelId)) {
+    if (type === 'character' && place.linkedCharacterIds.includes(id)) {
+      await placeStore.put({ ...place, linkedCharacterIds: withoutId(place.linkedCharacterIds, id), updatedAt: now });
+    } else if (type === 'place' && place.parentPlaceId === id) {
+      // Sub-places move up to the top level rather than disappearing
+      await placeStore.put({ ...place, parentPlaceId: undefined, updatedAt: now });
+    }
+  }
+
+  if (type === 'character') {
+    const relationshipStore = tx.objectStore('relationships');
+    const outgoing = await relationshipStore.index('by-source').getAllKeys(id);
+    const incoming = await relationshipStore.index('by-target').getAllKeys(id);
+    for (const relId of [...outgoing, ...incoming]) {
+      await relationshipStore.delete(relId);
+    }
+  }
+
+  const noteStore = tx.objectStore('notes');
+  for (const note of await noteStore.index('by-novel').getAll(novelId)) {
+    if (note[field].includes(id)) {
+      await noteStore.put({ ...note, [field]: withoutId(note[field], id), updatedAt: now });
+    }
+  }
+
+  const appearanceField = type === 'character' ? 'characterIds' : 'placeIds';
+  const chapterStore = tx.objectStore('chapters');
+  for (const chapter of await chapterStore.index('by-novel').getAll(novelId)) {
+    if (chapter[appearanceField].includes(id)) {
+      await chapterStore.put({ ...chapter, [appearanceField]: withoutId(chapter[appearanceField], id), updatedAt: now });
+    }
+  }
+
+  const eventStore = tx.objectStore('events');
+  for (const event of await eventStore.index('by-novel').getAll(novelId)) {
+    if (type === 'character' && event.characterIds.includes(id)) {
+      await eventStore.put({ ...event, characterIds: withoutId(event.characterIds, id), updatedAt: now });
+    } else if (type === 'place' && event.placeId === id) {
+      await eventStore.put({ ...event, placeId: undefined, updatedAt: now });
+    }
+  }
+
+  const factionStore = tx.objectStore('factions');
+  for (const faction of await factionStore.index('by-novel').getAll(novelId)) {
+    if (type === 'character' && faction.members.some(m => m.characterId === id)) {
+      await factionStore.put({ ...faction, members: faction.members.filter(m => m.characterId !== id), updatedAt: now });
+    } else if (type === 'place' && faction.headquartersPlaceId === id) {
+      await factionStore.put({ ...faction, headquartersPlaceId: undefined, updatedAt: now });
+    }
+  }
+
+  const itemStore = tx.objectStore('items');
+  for (const item of await itemStore.index('by-novel').getAll(novelId)) {
+    if (type === 'character' && item.owners.some(o => o.characterId === id)) {
+      await itemStore.put({ ...item, owners: item.owners.filter(o => o.characterId !== id), updatedAt: now });
+    } else if (type === 'place' && item.locations.some(l => l.placeId === id)) {
+      await itemStore.put({ ...item, locations: item.locations.filter(l => l.placeId !== id), updatedAt: now });
+    }
+  }
+
+  if (type === 'place') {
+    const mapStore = tx.objectStore('maps');
+    for (const map of await mapStore.index('by-novel').getAll(novelId)) {
+      if (map.pins.some(p => p.placeId === id)) {
+        await mapStore.put({ ...map, pins: map.pins.filter(p => p.placeId !== id), updatedAt: now });
+      }
+    }
+  }
+
+  await stripCustomLinks(tx.objectStore('customEntities'), novelId, id);
+};
+
+type CustomEntityStore = IDBPObjectStore<
+  NovelCompanionDB,
+  ArrayLike<StoreNames<NovelCompanionDB>>,
+  'customEntities',
+  'readwrite'
+>;
+
+// Ids are unique across stores, so any id list holding the id can drop it
+const stripCustomLinks = async (store: CustomEntityStore, novelId: string, id: string) => {
+  for (const entity of await store.index('by-novel').getAll(novelId)) {
+    const linked = Object.entries(entity.values).filter(([, value]) => getIdList(value).includes(id));
+    if (linked.length === 0) continue;
+    const values = { ...entity.values };
+    for (const [fieldId, value] of linked) {
+      values[fieldId] = withoutId(getIdList(value), id);
+    }
+    await store.put({ ...entity, values, updatedAt: Date.now() });
+  }
+};
+
 // Novel operations
 export const novelDB = {
   async getAll(): Promise<Novel[]> {
@@ -90,7 +781,12 @@ export const novelDB = {
       createdAt: now,
       updatedAt: now,
     };
-    await db.put('novels', newNovel);
+    const tx = db.transaction(['novels', 'tags'], 'readwrite');
+    await tx.objectStore('novels').put(newNovel);
+    for (const tag of createDefaultTags(newNovel.id)) {
+      await tx.objectStore('tags').put(tag);
+    }
+    await tx.done;
     return newNovel;
   },
 
@@ -116,14 +812,27 @@ export const novelDB = {
     const characters = await db.getAllFromIndex('characters', 'by-novel', id);
     const places = await db.getAllFromIndex('places', 'by-novel', id);
     const notes = await db.getAllFromIndex('notes', 'by-novel', id);
+    const relationships = await db.getAllFromIndex('relationships', 'by-novel', id);
+    const tags = await db.getAllKeysFromIndex('tags', 'by-novel', id);
+    const chapters = await db.getAllKeysFromIndex('chapters', 'by-novel', id);
+    const events = await db.getAllKeysFromIndex('events', 'by-novel', id);
+    const factions = await db.getAllFromIndex('factions', 'by-novel', id);
+    const items = await db.getAllFromIndex('items', 'by-novel', id);
+    const glossary = await db.getAllFromIndex('glossary', 'by-novel', id);
+    const customTypes = await db.getAllFromIndex('customTypes', 'by-novel', id);
+    const customEntities = await db.getAllFromIndex('customEntities', 'by-novel', id);
+    const maps = await db.getAllFromIndex('maps', 'by-novel', id);
 
-    const tx = db.transaction(['novels', 'characters', 'places', 'notes', 'images'], 'readwrite');
+    const tx = db.transaction(
+      ['novels', 'characters', 'places', 'notes', 'images', 'relationships', 'tags', 'chapters', 'events', 'factions', 'items', 'glossary', 'customTypes', 'customEntities', 'maps'],
+      'readwrite'
+    );
     
     // Delete characters and their images
     for (const char of characters) {
       await tx.objectStore('characters').delete(char.id);
       for (const imgId of char.images) {
-        await tx.objectStore('images').delete(imgId);
+        await releaseImage(tx.objectStore('images'), imgId);
       }
     }
     
@@ -131,7 +840,7 @@ export const novelDB = {
     for (const place of places) {
       await tx.objectStore('places').delete(place.id);
       for (const imgId of place.images) {
-        await tx.objectStore('images').delete(imgId);
+        await releaseImage(tx.objectStore('images'), imgId);
       }
     }
     
@@ -139,6 +848,65 @@ export const novelDB = {
     for (const note of notes) {
       await tx.objectStore('notes').delete(note.id);
     }
+
+    // Delete relationships
+    for (const rel of relationships) {
+      await tx.objectStore('relationships').delete(rel.id);
+    }
+
+    // Delete tags
+    for (const tagId of tags) {
+      await tx.objectStore('tags').delete(tagId);
+    }
+
+    // Delete chapters
+    for (const chapterId of chapters) {
+      await tx.objectStore('chapters').delete(chapterId);
+    }
+
+    // Delete events
+    for (const eventId of events) {
+      await tx.objectStore('events').delete(eventId);
+    }
+
+    // Delete factions and their images
+    for (const faction of factions) {
+      await tx.objectStore('factions').delete(faction.id);
+      for (const imgId of faction.images) {
+        await releaseImage(tx.objectStore('images'), imgId);
+      }
+    }
+
+    // Delete items and their images
+    for (const item of items) {
+      await tx.objectStore('items').delete(item.id);
+      for (const imgId of item.images) {
+        await releaseImage(tx.objectStore('images'), imgId);
+      }
+    }
+
+    // Delete glossary terms
+    for (const term of glossary) {
+      await tx.objectStore('glossary').delete(term.id);
+    }
+
+    // Delete custom types, their entries and the entries' images
+    const typesById = new Map(customTypes.map(t => [t.id, t]));
+    for (const entity of customEntities) {
+      await tx.objectStore('customEntities').delete(entity.id);
+      for (const imgId of getCustomImageIds(entity, typesById.get(entity.typeId))) {
+        await releaseImage(tx.objectStore('images'), imgId);
+      }
+    }
+    for (const type of customTypes) {
+      await tx.objectStore('customTypes').delete(type.id);
+    }
+
+    // Delete maps and their images
+    for (const map of maps) {
+      await tx.objectStore('maps').delete(map.id);
+      await releaseImage(tx.objectStore('images'), map.imageId);
+    }
     
     // Delete novel
     await tx.objectStore('novels').delete(id);
@@ -168,13 +936,18 @@ export const characterDB = {
       createdAt: now,
       updatedAt: now,
     };
-    await db.put('characters', newCharacter);
+    const tx = db.transaction(LINK_STORES, 'readwrite');
+    await tx.objectStore('characters').put(newCharacter);
+    await syncCharacterBacklinks(tx, newCharacter.id, NO_CHARACTER_LINKS, newCharacter);
+    await resyncNoteLinks(tx, newCharacter.novelId);
+    await tx.done;
     return newCharacter;
   },
 
   async update(id: string, data: Partial<Character>): Promise<Character | undefined> {
     const db = await getDB();
-    const existing = await db.get('characters', id);
+    const tx = db.transaction(LINK_STORES, 'readwrite');
+    const existing = await tx.objectStore('characters').get(id);
     if (!existing) return undefined;
     
     const updated: Character = {
@@ -183,36 +956,30 @@ export const characterDB = {
       id,
       updatedAt: Date.now(),
     };
-    await db.put('characters', updated);
+    await tx.objectStore('characters').put(updated);
+    await syncCharacterBacklinks(tx, id, existing, updated);
+    if (updated.name !== existing.name || !sameIds(getAliasNames(updated), getAliasNames(existing))) {
+      await resyncNoteLinks(tx, updated.novelId);
+    }
+    await tx.done;
     return updated;
   },
 
   async delete(id: string): Promise<void> {
     const db = await getDB();
-    const character = await db.get('characters', id);
+    const tx = db.transaction(LINK_STORES, 'readwrite');
+    const character = await tx.objectStore('characters').get(id);
     if (!character) return;
-
-    const tx = db.transaction(['characters', 'images'], 'readwrite');
     
     // Delete images
     for (const imgId of character.images) {
-      await tx.objectStore('images').delete(imgId);
+      await releaseImage(tx.objectStore('images'), imgId);
     }
     
     await tx.objectStore('characters').delete(id);
+    await stripReferences(tx, character.novelId, 'character', id);
+    await resyncNoteLinks(tx, character.novelId);
     await tx.done;
-
-    // Remove references from other characters
-    const allChars = await db.getAllFromIndex('characters', 'by-novel', character.novelId);
-    for (const char of allChars) {
-      if (char.linkedCharacterIds.includes(id)) {
-        await db.put('characters', {
-          ...char,
-          linkedCharacterIds: char.linkedCharacterIds.filter(cid => cid !== id),
-          updatedAt: Date.now(),
-        });
-      }
-    }
   },
 };
 
@@ -237,13 +1004,18 @@ export const placeDB = {
       createdAt: now,
       updatedAt: now,
     };
-    await db.put('places', newPlace);
+    const tx = db.transaction(LINK_STORES, 'readwrite');
+    await tx.objectStore('places').put(newPlace);
+    await syncPlaceBacklinks(tx, newPlace.id, [], newPlace.linkedCharacterIds);
+    await resyncNoteLinks(tx, newPlace.novelId);
+    await tx.done;
     return newPlace;
   },
 
   async update(id: string, data: Partial<Place>): Promise<Place | undefined> {
     const db = await getDB();
-    const existing = await db.get('places', id);
+    const tx = db.transaction(LINK_STORES, 'readwrite');
+    const existing = await tx.objectStore('places').get(id);
     if (!existing) return undefined;
     
     const updated: Place = {
@@ -252,22 +1024,26 @@ export const placeDB = {
       id,
       updatedAt: Date.now(),
     };
-    await db.put('places', updated);
+    await tx.objectStore('places').put(updated);
+    await syncPlaceBacklinks(tx, id, existing.linkedCharacterIds, updated.linkedCharacterIds);
+    if (updated.name !== existing.name) await resyncNoteLinks(tx, updated.novelId);
+    await tx.done;
     return updated;
   },
 
   async delete(id: string): Promise<void> {
     const db = await getDB();
-    const place = await db.get('places', id);
+    const tx = db.transaction(LINK_STORES, 'readwrite');
+    const place = await tx.objectStore('places').get(id);
     if (!place) return;
-
-    const tx = db.transaction(['places', 'images'], 'readwrite');
     
     for (const imgId of place.images) {
-      await tx.objectStore('images').delete(imgId);
+      await releaseImage(tx.objectStore('images'), imgId);
     }
     
     await tx.objectStore('places').delete(id);
+    await stripReferences(tx, place.novelId, 'place', id);
+    await resyncNoteLinks(tx, place.novelId);
     await tx.done;
   },
 };
@@ -318,96 +1094,1183 @@ export const noteDB = {
   },
 };
 
-// Image operations
-export const imageDB = {
-  async get(id: string): Promise<string | undefined> {
+// Relationship operations
+export const relationshipDB = {
+  async getByNovel(novelId: string): Promise<Relationship[]> {
     const db = await getDB();
-    const record = await db.get('images', id);
-    return record?.data;
+    return db.getAllFromIndex('relationships', 'by-novel', novelId);
   },
 
-  async save(data: string): Promise<string> {
+  async get(id: string): Promise<Relationship | undefined> {
     const db = await getDB();
-    const id = generateId();
-    await db.put('images', { id, data });
-    return id;
+    return db.get('relationships', id);
+  },
+
+  async create(relationship: Omit<Relationship, 'id' | 'createdAt' | 'updatedAt'>): Promise<Relationship> {
+    const db = await getDB();
+    const now = Date.now();
+    const newRelationship: Relationship = {
+      ...relationship,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.put('relationships', newRelationship);
+    return newRelationship;
+  },
+
+  async update(id: string, data: Partial<Relationship>): Promise<Relationship | undefined> {
+    const db = await getDB();
+    const existing = await db.get('relationships', id);
+    if (!existing) return undefined;
+
+    const updated: Relationship = {
+      ...existing,
+      ...data,
+      id,
+      updatedAt: Date.now(),
+    };
+    await db.put('relationships', updated);
+    return updated;
   },
 
   async delete(id: string): Promise<void> {
     const db = await getDB();
-    await db.delete('images', id);
+    await db.delete('relationships', id);
   },
 };
 
-// Export/Import operations
-export const dataExport = {
-  async exportAll(): Promise<ExportData> {
+// Tag operations
+export const tagDB = {
+  async getByNovel(novelId: string): Promise<Tag[]> {
     const db = await getDB();
-    
-    const novels = await db.getAll('novels');
-    const characters = await db.getAll('characters');
-    const places = await db.getAll('places');
-    const notes = await db.getAll('notes');
-    
-    // Collect all image IDs
-    const imageIds = new Set<string>();
-    characters.forEach(c => c.images.forEach(id => imageIds.add(id)));
-    places.forEach(p => p.images.forEach(id => imageIds.add(id)));
-    novels.forEach(n => n.coverImage && imageIds.add(n.coverImage));
-    
-    // Get all images
-    const images: { [key: string]: string } = {};
-    for (const id of imageIds) {
-      const data = await imageDB.get(id);
-      if (data) images[id] = data;
-    }
-    
-    return {
-      version: '1.0',
-      exportedAt: Date.now(),
-      novels,
-      characters,
-      places,
-      notes,
-      images,
+    const tags = await db.getAllFromIndex('tags', 'by-novel', novelId);
+    return tags.sort((a, b) => a.order - b.order);
+  },
+
+  async create(tag: Omit<Tag, 'id' | 'order' | 'createdAt' | 'updatedAt'>): Promise<Tag> {
+    const db = await getDB();
+    const existing = await db.getAllFromIndex('tags', 'by-novel', tag.novelId);
+    const now = Date.now();
+    const newTag: Tag = {
+      ...tag,
+      id: generateId(),
+      order: existing.reduce((max, t) => Math.max(max, t.order + 1), 0),
+      createdAt: now,
+      updatedAt: now,
     };
+    await db.put('tags', newTag);
+    return newTag;
   },
 
-  async importAll(data: ExportData, mode: 'overwrite' | 'merge' = 'overwrite'): Promise<void> {
+  async update(id: string, data: Partial<Tag>): Promise<Tag | undefined> {
     const db = await getDB();
-    
-    if (mode === 'overwrite') {
-      // Clear all stores
-      await db.clear('novels');
-      await db.clear('characters');
-      await db.clear('places');
-      await db.clear('notes');
-      await db.clear('images');
-    }
-    
-    // Import images first
-    for (const [id, dataStr] of Object.entries(data.images)) {
-      await db.put('images', { id, data: dataStr });
-    }
-    
-    // Import novels
-    for (const novel of data.novels) {
-      await db.put('novels', novel);
+    const existing = await db.get('tags', id);
+    if (!existing) return undefined;
+
+    const updated: Tag = {
+      ...existing,
+      ...data,
+      id,
+      updatedAt: Date.now(),
+    };
+    await db.put('tags', updated);
+    return updated;
+  },
+
+  // Persists a new ordering given the tag ids in their desired order
+  async reorder(ids: string[]): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction('tags', 'readwrite');
+    for (const [order, id] of ids.entries()) {
+      const tag = await tx.store.get(id);
+      if (tag) await tx.store.put({ ...tag, order });
+    }
+    await tx.done;
+  },
+
+  // Deletes the tag and removes it from every character, place and note
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(['tags', 'characters', 'places', 'notes'], 'readwrite');
+    const tag = await tx.objectStore('tags').get(id);
+    if (!tag) return;
+
+    const now = Date.now();
+    for (const char of await tx.objectStore('characters').index('by-novel').getAll(tag.novelId)) {
+      if (char.tags.includes(id)) {
+        await tx.objectStore('characters').put({ ...char, tags: withoutId(char.tags, id), updatedAt: now });
+      }
+    }
+    for (const place of await tx.objectStore('places').index('by-novel').getAll(tag.novelId)) {
+      if (place.tags.includes(id)) {
+        await tx.objectStore('places').put({ ...place, tags: withoutId(place.tags, id), updatedAt: now });
+      }
+    }
+    for (const note of await tx.objectStore('notes').index('by-novel').getAll(tag.novelId)) {
+      if (note.tags.includes(id)) {
+        await tx.objectStore('notes').put({ ...note, tags: withoutId(note.tags, id), updatedAt: now });
+      }
+    }
+
+    await tx.objectStore('tags').delete(id);
+    await tx.done;
+  },
+};
+
+// Faction operations
+export const factionDB = {
+  async getByNovel(novelId: string): Promise<Faction[]> {
+    const db = await getDB();
+    return db.getAllFromIndex('factions', 'by-novel', novelId);
+  },
+
+  async get(id: string): Promise<Faction | undefined> {
+    const db = await getDB();
+    return db.get('factions', id);
+  },
+
+  async create(faction: Omit<Faction, 'id' | 'createdAt' | 'updatedAt'>): Promise<Faction> {
+    const db = await getDB();
+    const now = Date.now();
+    const newFaction: Faction = {
+      ...faction,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.put('factions', newFaction);
+    return newFaction;
+  },
+
+  async update(id: string, data: Partial<Faction>): Promise<Faction | undefined> {
+    const db = await getDB();
+    const existing = await db.get('factions', id);
+    if (!existing) return undefined;
+
+    const updated: Faction = {
+      ...existing,
+      ...data,
+      id,
+      updatedAt: Date.now(),
+    };
+    await db.put('factions', updated);
+    return updated;
+  },
+
+  // Deletes the faction and its images; sub-factions move up to the top level
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(['factions', 'customEntities', 'images'], 'readwrite');
+    const faction = await tx.objectStore('factions').get(id);
+    if (!faction) return;
+
+    for (const imgId of faction.images) {
+      await releaseImage(tx.objectStore('images'), imgId);
+    }
+
+    const now = Date.now();
+    for (const child of await tx.objectStore('factions').index('by-novel').getAll(faction.novelId)) {
+      if (child.parentFactionId === id) {
+        await tx.objectStore('factions').put({ ...child, parentFactionId: undefined, updatedAt: now });
+      }
+    }
+
+    await tx.objectStore('factions').delete(id);
+    await stripCustomLinks(tx.objectStore('customEntities'), faction.novelId, id);
+    await tx.done;
+  },
+};
+
+// Item operations
+export const itemDB = {
+  async getByNovel(novelId: string): Promise<Item[]> {
+    const db = await getDB();
+    return db.getAllFromIndex('items', 'by-novel', novelId);
+  },
+
+  async get(id: string): Promise<Item | undefined> {
+    const db = await getDB();
+    return db.get('items', id);
+  },
+
+  async create(item: Omit<Item, 'id' | 'createdAt' | 'updatedAt'>): Promise<Item> {
+    const db = await getDB();
+    const now = Date.now();
+    const newItem: Item = {
+      ...item,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.put('items', newItem);
+    return newItem;
+  },
+
+  async update(id: string, data: Partial<Item>): Promise<Item | undefined> {
+    const db = await getDB();
+    const existing = await db.get('items', id);
+    if (!existing) return undefined;
+
+    const updated: Item = {
+      ...existing,
+      ...data,
+      id,
+      updatedAt: Date.now(),
+    };
+    await db.put('items', updated);
+    return updated;
+  },
+
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(['items', 'customEntities', 'images'], 'readwrite');
+    const item = await tx.objectStore('items').get(id);
+    if (!item) return;
+
+    for (const imgId of item.images) {
+      await releaseImage(tx.objectStore('images'), imgId);
+    }
+
+    await tx.objectStore('items').delete(id);
+    await stripCustomLinks(tx.objectStore('customEntities'), item.novelId, id);
+    await tx.done;
+  },
+};
+
+// Glossary operations
+export const glossaryDB = {
+  async getByNovel(novelId: string): Promise<GlossaryTerm[]> {
+    const db = await getDB();
+    return db.getAllFromIndex('glossary', 'by-novel', novelId);
+  },
+
+  async get(id: string): Promise<GlossaryTerm | undefined> {
+    const db = await getDB();
+    return db.get('glossary', id);
+  },
+
+  async create(term: Omit<GlossaryTerm, 'id' | 'createdAt' | 'updatedAt'>): Promise<GlossaryTerm> {
+    const db = await getDB();
+    const now = Date.now();
+    const newTerm: GlossaryTerm = {
+      ...term,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.put('glossary', newTerm);
+    return newTerm;
+  },
+
+  async update(id: string, data: Partial<GlossaryTerm>): Promise<GlossaryTerm | undefined> {
+    const db = await getDB();
+    const existing = await db.get('glossary', id);
+    if (!existing) return undefined;
+
+    const updated: GlossaryTerm = {
+      ...existing,
+      ...data,
+      id,
+      updatedAt: Date.now(),
+    };
+    await db.put('glossary', updated);
+    return updated;
+  },
+
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    await db.delete('glossary', id);
+  },
+};
+
+// Stores whose records belong to a novel and need nothing beyond plain CRUD
+type NovelRecordStore = 'customTypes' | 'customEntities' | 'maps';
+
+// Generic repository over a novel-scoped store
+const createNovelRepository = <S extends NovelRecordStore>(store: S) => {
+  type Value = NovelCompanionDB[S]['value'];
+
+  return {
+    async getByNovel(novelId: string): Promise<Value[]> {
+      const db = await getDB();
+      // A key range keeps the index key type independent of S
+      return db.getAllFromIndex(store, 'by-novel', IDBKeyRange.only(novelId));
+    },
+
+    async get(id: string): Promise<Value | undefined> {
+      const db = await getDB();
+      return db.get(store, id);
+    },
+
+    async create(record: Omit<Value, 'id' | 'createdAt' | 'updatedAt'>): Promise<Value> {
+      const db = await getDB();
+      const now = Date.now();
+      const newRecord = {
+        ...record,
+        id: generateId(),
+        createdAt: now,
+        updatedAt: now,
+      } as Value;
+      await db.put(store, newRecord);
+      return newRecord;
+    },
+
+    async update(id: string, data: Partial<Value>): Promise<Value | undefined> {
+      const db = await getDB();
+      const existing = await db.get(store, id);
+      if (!existing) return undefined;
+
+      const updated = {
+        ...existing,
+        ...data,
+        id,
+        updatedAt: Date.now(),
+      } as Value;
+      await db.put(store, updated);
+      return updated;
+    },
+  };
+};
+
+// Custom entity type operations
+export const customTypeDB = {
+  ...createNovelRepository('customTypes'),
+
+  // Entries keep only values that still fit the type's fields, and images
+  // held by image fields that were removed or changed type are released
+  async update(id: string, data: Partial<CustomEntityType>): Promise<CustomEntityType | undefined> {
+    const db = await getDB();
+    const tx = db.transaction(['customTypes', 'customEntities', 'images'], 'readwrite');
+    const existing = await tx.objectStore('customTypes').get(id);
+    if (!existing) return undefined;
+
+    const now = Date.now();
+    const updated: CustomEntityType = { ...existing, ...data, id, updatedAt: now };
+    await tx.objectStore('customTypes').put(updated);
+
+    // A field that turns into or out of an image field can't keep its ids:
+    // image ids count as uses, link ids don't
+    const imageFieldIds = (type: CustomEntityType) => type.fields.filter(f => f.type === 'image').map(f => f.id);
+    const wasImage = imageFieldIds(existing);
+    const isImage = imageFieldIds(updated);
+    const dropped = wasImage.filter(f => !isImage.includes(f));
+    const changed = [...dropped, ...isImage.filter(f => !wasImage.includes(f))];
+
+    for (const entity of await tx.objectStore('customEntities').index('by-type').getAll(id)) {
+      const kept = Object.fromEntries(Object.entries(entity.values).filter(([fieldId]) => !changed.includes(fieldId)));
+      const values = cleanCustomValues(kept, updated.fields);
+      if (Object.keys(values).length === Object.keys(entity.values).length) continue;
+
+      for (const imgId of dropped.flatMap(fieldId => getIdList(entity.values[fieldId]))) {
+        await releaseImage(tx.objectStore('images'), imgId);
+      }
+      await tx.objectStore('customEntities').put({ ...entity, values, updatedAt: now });
+    }
+
+    await tx.done;
+    return updated;
+  },
+
+  // Deletes the type along with every entry of that type and their images,
+  // and unlinks those entries from entries of other types
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(['customTypes', 'customEntities', 'images'], 'readwrite');
+    const type = await tx.objectStore('customTypes').get(id);
+    if (!type) return;
+
+    const entities = await tx.objectStore('customEntities').index('by-type').getAll(id);
+    for (const entity of entities) {
+      for (const imgId of getCustomImageIds(entity, type)) {
+        await releaseImage(tx.objectStore('images'), imgId);
+      }
+      await tx.objectStore('customEntities').delete(entity.id);
+    }
+    for (const entity of entities) {
+      await stripCustomLinks(tx.objectStore('customEntities'), type.novelId, entity.id);
+    }
+
+    await tx.objectStore('customTypes').delete(id);
+    await tx.done;
+  },
+};
+
+// Custom entity operations
+export const customEntityDB = {
+  ...createNovelRepository('customEntities'),
+
+  // Deletes the entry and its images, and unlinks it from other entries
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(['customTypes', 'customEntities', 'images'], 'readwrite');
+    const entity = await tx.objectStore('customEntities').get(id);
+    if (!entity) return;
+
+    const type = await tx.objectStore('customTypes').get(entity.typeId);
+    for (const imgId of getCustomImageIds(entity, type)) {
+      await releaseImage(tx.objectStore('images'), imgId);
+    }
+
+    await tx.objectStore('customEntities').delete(id);
+    await stripCustomLinks(tx.objectStore('customEntities'), entity.novelId, id);
+    await tx.done;
+  },
+};
+
+// World map operations
+export const mapDB = {
+  ...createNovelRepository('maps'),
+
+  // Deletes the map and its image; the pinned places are left alone
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(['maps', 'images'], 'readwrite');
+    const map = await tx.objectStore('maps').get(id);
+    if (!map) return;
+
+    await releaseImage(tx.objectStore('images'), map.imageId);
+    await tx.objectStore('maps').delete(id);
+    await tx.done;
+  },
+};
+
+// Chapter operations
+export const chapterDB = {
+  async getByNovel(novelId: string): Promise<Chapter[]> {
+    const db = await getDB();
+    const chapters = await db.getAllFromIndex('chapters', 'by-novel', novelId);
+    return sortChapters(chapters);
+  },
+
+  async get(id: string): Promise<Chapter | undefined> {
+    const db = await getDB();
+    return db.get('chapters', id);
+  },
+
+  async create(chapter: Omit<Chapter, 'id' | 'createdAt' | 'updatedAt'>): Promise<Chapter> {
+    const db = await getDB();
+    const now = Date.now();
+    const newChapter: Chapter = {
+      ...chapter,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.put('chapters', newChapter);
+    return newChapter;
+  },
+
+  async update(id: string, data: Partial<Chapter>): Promise<Chapter | undefined> {
+    const db = await getDB();
+    const existing = await db.get('chapters', id);
+    if (!existing) return undefined;
+
+    const updated: Chapter = {
+      ...existing,
+      ...data,
+      id,
+      updatedAt: Date.now(),
+    };
+    await db.put('chapters', updated);
+    return updated;
+  },
+
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    await db.delete('chapters', id);
+  },
+};
+
+// Timeline event operations
+export const eventDB = {
+  async getByNovel(novelId: string): Promise<StoryEvent[]> {
+    const db = await getDB();
+    const events = await db.getAllFromIndex('events', 'by-novel', novelId);
+    return sortEvents(events);
+  },
+
+  async get(id: string): Promise<StoryEvent | undefined> {
+    const db = await getDB();
+    return db.get('events', id);
+  },
+
+  async create(event: Omit<StoryEvent, 'id' | 'createdAt' | 'updatedAt'>): Promise<StoryEvent> {
+    const db = await getDB();
+    const now = Date.now();
+    const newEvent: StoryEvent = {
+      ...event,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.put('events', newEvent);
+    return newEvent;
+  },
+
+  async update(id: string, data: Partial<StoryEvent>): Promise<StoryEvent | undefined> {
+    const db = await getDB();
+    const existing = await db.get('events', id);
+    if (!existing) return undefined;
+
+    const updated: StoryEvent = {
+      ...existing,
+      ...data,
+      id,
+      updatedAt: Date.now(),
+    };
+    await db.put('events', updated);
+    return updated;
+  },
+
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    await db.delete('events', id);
+  },
+};
+
+// Image operations
+export const imageDB = {
+  async get(id: string): Promise<Blob | undefined> {
+    const db = await getDB();
+    const record = await db.get('images', id);
+    return record?.blob;
+  },
+
+  // Falls back to the full image when it is small enough to need no thumbnail
+  async getThumbnail(id: string): Promise<Blob | undefined> {
+    const db = await getDB();
+    let record = await db.get('images', id);
+    if (record && record.width === undefined) {
+      try {
+        const description = await describeImage(record.blob);
+        // Re-read so a use added or dropped meanwhile isn't overwritten
+        const tx = db.transaction('images', 'readwrite');
+        const latest = await tx.store.get(id);
+        record = { ...(latest ?? record), ...description };
+        if (latest) await tx.store.put(record);
+        await tx.done;
+      } catch (error) {
+        // Not decodable here; show the original rather than nothing
+        return record.blob;
+      }
+    }
+    return record?.thumbnail ?? record?.blob;
+  },
+
+  // Saving an image that is already stored adds a use instead of a copy
+  async save(blob: Blob): Promise<string> {
+    const db = await getDB();
+    const id = await hashBlob(blob);
+    if (await addImageRef(db, id)) return id;
+
+    // Formats this browser can't decode are kept as they are; getThumbnail tries again later
+    const description = await describeImage(blob).catch(() => ({}));
+    // Another save of the same image may have landed while this one was decoding
+    if (await addImageRef(db, id)) return id;
+    await db.put('images', { id, blob, type: blob.type, refs: 1, createdAt: Date.now(), ...description });
+    return id;
+  },
+
+
+  // Removes one use; the image itself goes once nothing else uses it
+  async delete(id: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction('images', 'readwrite');
+    await releaseImage(tx.store, id);
+    await tx.done;
+  },
+};
+
+const addImageRef = async (db: IDBPDatabase<NovelCompanionDB>, id: string): Promise<boolean> => {
+  const tx = db.transaction('images', 'readwrite');
+  const record = await tx.store.get(id);
+  if (record) await tx.store.put({ ...record, refs: record.refs + 1 });
+  await tx.done;
+  return !!record;
+};
+
+// Library-wide search reads everything in one go; the ranking lives in lib/search
+export const searchDB = {
+  async getLibrary(): Promise<SearchLibrary> {
+    const db = await getDB();
+    const tx = db.transaction(['novels', 'characters', 'places', 'notes'], 'readonly');
+    const [novels, characters, places, notes] = await Promise.all([
+      tx.objectStore('novels').getAll(),
+      tx.objectStore('characters').getAll(),
+      tx.objectStore('places').getAll(),
+      tx.objectStore('notes').getAll(),
+    ]);
+    return { novels, characters, places, notes };
+  },
+};
+
+// Export/Import operations
+export const dataExport = {
+  async exportAll(): Promise<ExportData> {
+    const db = await getDB();
+    
+    const novels = await db.getAll('novels');
+    const characters = await db.getAll('characters');
+    const places = await db.getAll('places');
+    const notes = await db.getAll('notes');
+    const relationships = await db.getAll('relationships');
+    const tags = await db.getAll('tags');
+    const chapters = await db.getAll('chapters');
+    const events = await db.getAll('events');
+    const factions = await db.getAll('factions');
+    const items = await db.getAll('items');
+    const glossary = await db.getAll('glossary');
+    const customTypes = await db.getAll('customTypes');
+    const customEntities = await db.getAll('customEntities');
+    const maps = await db.getAll('maps');
+    
+    // Collect all image IDs
+    const imageIds = new Set(
+      listImageRefs({ novels, characters, places, factions, items, customTypes, customEntities, maps })
+    );
+    
+    // Backups stay plain JSON, so images go out as data URLs; thumbnails
+    // are rebuilt after import
+    const images: { [key: string]: string } = {};
+    for (const id of imageIds) {
+      const blob = await imageDB.get(id);
+      if (blob) images[id] = await blobToDataURL(blob);
+    }
+    
+    return {
+      version: '1.11',
+      exportedAt: Date.now(),
+      novels,
+      characters,
+      places,
+      notes,
+      relationships,
+      tags,
+      chapters,
+      events,
+      factions,
+      items,
+      glossary,
+      customTypes,
+      customEntities,
+      maps,
+      images,
+    };
+  },
+
+  async importAll(data: ExportData, mode: 'overwrite' | 'merge' = 'overwrite'): Promise<void> {
+    const db = await getDB();
+    
+    if (mode === 'overwrite') {
+      // Clear all stores
+      await db.clear('novels');
+      await db.clear('characters');
+      await db.clear('places');
+      await db.clear('notes');
+      await db.clear('images');
+      await db.clear('relationships');
+      await db.clear('tags');
+      await db.clear('chapters');
+      await db.clear('events');
+      await db.clear('factions');
+      await db.clear('items');
+      await db.clear('glossary');
+      await db.clear('customTypes');
+      await db.clear('customEntities');
+      await db.clear('maps');
+    }
+    
+    // Import images first, keyed by content so duplicates (within the
+    // backup or against what is already stored) collapse into one
+    const imageIdMap = new Map<string, string>();
+    for (const [oldId, dataStr] of Object.entries(data.images)) {
+      const image = fromDataURL(oldId, dataStr);
+      const id = await hashBlob(image.blob);
+      imageIdMap.set(oldId, id);
+      if (!(await db.get('images', id))) await db.put('images', { ...image, id });
+    }
+    const owners: ImageOwners = {
+      novels: data.novels,
+      characters: data.characters,
+      places: data.places,
+      factions: data.factions ?? [],
+      items: data.items ?? [],
+      customTypes: data.customTypes ?? [],
+      customEntities: data.customEntities ?? [],
+      maps: data.maps ?? [],
+    };
+    // 1.10 backups kept captions beside the images rather than on the records
+    const imported = remapImageIds(
+      data.imageCaptions ? applyImageCaptions(owners, data.imageCaptions) : owners,
+      imageIdMap
+    );
+
+    // Backups from before 1.2 carry the old built-in tag names
+    const { tags, characters, places, notes } = data.tags
+      ? { tags: data.tags, characters: imported.characters, places: imported.places, notes: data.notes }
+      : migrateLegacyTags(imported.novels, imported.characters, imported.places, data.notes);
+
+    // Import novels
+    for (const novel of imported.novels) {
+      await db.put('novels', novel);
+    }
+
+    // Import tags
+    for (const tag of tags) {
+      await db.put('tags', tag);
     }
     
-    // Import characters
-    for (const character of data.characters) {
-      await db.put('characters', character);
+    // Import characters; their plain links become relationships below
+    for (const character of characters) {
+      await db.put('characters', { ...character, linkedCharacterIds: [] });
     }
     
     // Import places
-    for (const place of data.places) {
+    for (const place of places) {
       await db.put('places', place);
     }
     
     // Import notes
-    for (const note of data.notes) {
+    for (const note of notes) {
       await db.put('notes', note);
     }
+
+    // Import relationships, plus any plain character links older backups hold
+    const relationships = [
+      ...(data.relationships ?? []),
+      ...linksToRelationships(data.characters, data.relationships ?? []),
+    ];
+    for (const relationship of relationships) {
+      await db.put('relationships', relationship);
+    }
+
+    // Import chapters
+    for (const chapter of data.chapters ?? []) {
+      await db.put('chapters', chapter);
+    }
+
+    // Import timeline events
+    for (const event of data.events ?? []) {
+      await db.put('events', event);
+    }
+
+    // Import factions
+    for (const faction of imported.factions) {
+      await db.put('factions', faction);
+    }
+
+    // Import items
+    for (const item of imported.items) {
+      await db.put('items', item);
+    }
+
+    // Import glossary terms
+    for (const term of data.glossary ?? []) {
+      await db.put('glossary', term);
+    }
+
+    // Import custom types and their entries
+    for (const type of data.customTypes ?? []) {
+      await db.put('customTypes', type);
+    }
+    for (const entity of imported.customEntities) {
+      await db.put('customEntities', entity);
+    }
+
+    // Import maps
+    for (const map of imported.maps) {
+      await db.put('maps', map);
+    }
+
+    const tx = db.transaction(IMAGE_OWNER_STORES, 'readwrite');
+    await recountImageRefs(tx);
+    await tx.done;
+  },
+};
+
+// Integrity check & repair
+interface IntegritySnapshot {
+  novels: Novel[];
+  characters: Character[];
+  places: Place[];
+  notes: Note[];
+  relationships: Relationship[];
+  tags: Tag[];
+  chapters: Chapter[];
+  events: StoryEvent[];
+  factions: Faction[];
+  items: Item[];
+  customTypes: CustomEntityType[];
+  customEntities: CustomEntity[];
+  maps: WorldMap[];
+  imageIds: string[];
+}
+
+interface IntegrityFixes {
+  characters: Map<string, Character>;
+  places: Map<string, Place>;
+  notes: Map<string, Note>;
+  chapters: Map<string, Chapter>;
+  events: Map<string, StoryEvent>;
+  factions: Map<string, Faction>;
+  items: Map<string, Item>;
+  customEntities: Map<string, CustomEntity>;
+  maps: Map<string, WorldMap>;
+  relationshipIds: string[];
+  mapIds: string[];
+  imageIds: string[];
+}
+
+// Works on copies of the records; whatever it changes ends up in `fixes`
+const analyzeIntegrity = (snapshot: IntegritySnapshot): { issues: IntegrityIssue[]; fixes: IntegrityFixes } => {
+  const issues: IntegrityIssue[] = [];
+  const fixes: IntegrityFixes = {
+    characters: new Map(),
+    places: new Map(),
+    notes: new Map(),
+    chapters: new Map(),
+    events: new Map(),
+    factions: new Map(),
+    items: new Map(),
+    customEntities: new Map(),
+    maps: new Map(),
+    relationshipIds: [],
+    mapIds: [],
+    imageIds: [],
+  };
+
+  const characters = new Map(snapshot.characters.map(c => [c.id, { ...c }]));
+  const places = new Map(snapshot.places.map(p => [p.id, { ...p }]));
+  const existingImages = new Set(snapshot.imageIds);
+  const tagNovel = new Map(snapshot.tags.map(t => [t.id, t.novelId]));
+
+  const characterIn = (id: string, novelId: string) => {
+    const c = characters.get(id);
+    return c && c.novelId === novelId ? c : undefined;
+  };
+  const placeIn = (id: string, novelId: string) => {
+    const p = places.get(id);
+    return p && p.novelId === novelId ? p : undefined;
+  };
+
+  const checkImages = <T extends Character | Place | Faction | Item>(record: T, label: string, changed: Map<string, T>) => {
+    const missing = record.images.filter(id => !existingImages.has(id));
+    if (missing.length === 0) return;
+    issues.push({ kind: 'missing-image', message: `${label} references ${missing.length} missing image(s)` });
+    record.images = record.images.filter(id => existingImages.has(id));
+    changed.set(record.id, record);
+  };
+
+  const checkTags = <T extends Character | Place | Note>(record: T, label: string, changed: Map<string, T>) => {
+    const valid = record.tags.filter(id => tagNovel.get(id) === record.novelId);
+    if (valid.length === record.tags.length) return;
+    issues.push({ kind: 'dangling-link', message: `${label} uses ${record.tags.length - valid.length} deleted tag(s)` });
+    record.tags = valid;
+    changed.set(record.id, record);
+  };
+
+  for (const char of characters.values()) {
+    const label = `Character "${char.name}"`;
+    checkImages(char, label, fixes.characters);
+    checkTags(char, label, fixes.characters);
+
+    for (const otherId of char.linkedCharacterIds) {
+      const other = otherId !== char.id ? characterIn(otherId, char.novelId) : undefined;
+      if (!other) {
+        issues.push({ kind: 'dangling-link', message: `${label} links to a character that no longer exists` });
+        char.linkedCharacterIds = withoutId(char.linkedCharacterIds, otherId);
+        fixes.characters.set(char.id, char);
+      } else if (!other.linkedCharacterIds.includes(char.id)) {
+        issues.push({ kind: 'one-way-link', message: `${label} links to "${other.name}" but not the other way round` });
+        other.linkedCharacterIds = withId(other.linkedCharacterIds, char.id);
+        fixes.characters.set(other.id, other);
+      }
+    }
+
+    for (const placeId of char.linkedPlaceIds) {
+      const place = placeIn(placeId, char.novelId);
+      if (!place) {
+        issues.push({ kind: 'dangling-link', message: `${label} links to a place that no longer exists` });
+        char.linkedPlaceIds = withoutId(char.linkedPlaceIds, placeId);
+        fixes.characters.set(char.id, char);
+      } else if (!place.linkedCharacterIds.includes(char.id)) {
+        issues.push({ kind: 'one-way-link', message: `${label} links to "${place.name}" but not the other way round` });
+        place.linkedCharacterIds = withId(place.linkedCharacterIds, char.id);
+        fixes.places.set(place.id, place);
+      }
+    }
+  }
+
+  for (const place of places.values()) {
+    const label = `Place "${place.name}"`;
+    checkImages(place, label, fixes.places);
+    checkTags(place, label, fixes.places);
+
+    if (place.parentPlaceId !== undefined
+      && (place.parentPlaceId === place.id || !placeIn(place.parentPlaceId, place.novelId))) {
+      issues.push({ kind: 'dangling-link', message: `${label} is inside a place that no longer exists` });
+      place.parentPlaceId = undefined;
+      fixes.places.set(place.id, place);
+    }
+
+    for (const charId of place.linkedCharacterIds) {
+      const char = characterIn(charId, place.novelId);
+      if (!char) {
+        issues.push({ kind: 'dangling-link', message: `${label} links to a character that no longer exists` });
+        place.linkedCharacterIds = withoutId(place.linkedCharacterIds, charId);
+        fixes.places.set(place.id, place);
+      } else if (!char.linkedPlaceIds.includes(place.id)) {
+        issues.push({ kind: 'one-way-link', message: `${label} links to "${char.name}" but not the other way round` });
+        char.linkedPlaceIds = withId(char.linkedPlaceIds, place.id);
+        fixes.characters.set(char.id, char);
+      }
+    }
+  }
+
+  for (const original of snapshot.notes) {
+    const note = { ...original };
+    checkTags(note, `Note "${note.title}"`, fixes.notes);
+    const linkedCharacterIds = note.linkedCharacterIds.filter(id => characterIn(id, note.novelId));
+    const linkedPlaceIds = note.linkedPlaceIds.filter(id => placeIn(id, note.novelId));
+    const dangling = note.linkedCharacterIds.length - linkedCharacterIds.length
+      + note.linkedPlaceIds.length - linkedPlaceIds.length;
+    if (dangling > 0) {
+      issues.push({ kind: 'dangling-link', message: `Note "${note.title}" has ${dangling} link(s) to deleted entries` });
+      note.linkedCharacterIds = linkedCharacterIds;
+      note.linkedPlaceIds = linkedPlaceIds;
+      fixes.notes.set(note.id, note);
+    }
+  }
+
+  for (const rel of snapshot.relationships) {
+    if (!characterIn(rel.sourceId, rel.novelId) || !characterIn(rel.targetId, rel.novelId)) {
+      issues.push({ kind: 'dangling-relationship', message: 'A relationship refers to a character that no longer exists' });
+      fixes.relationshipIds.push(rel.id);
+    }
+  }
+
+  for (const original of snapshot.chapters) {
+    const characterIds = original.characterIds.filter(id => characterIn(id, original.novelId));
+    const placeIds = original.placeIds.filter(id => placeIn(id, original.novelId));
+    const dangling = original.characterIds.length - characterIds.length
+      + original.placeIds.length - placeIds.length;
+    if (dangling > 0) {
+      issues.push({
+        kind: 'dangling-appearance',
+        message: `Chapter ${original.number} lists ${dangling} appearance(s) of deleted entries`,
+      });
+      fixes.chapters.set(original.id, { ...original, characterIds, placeIds });
+    }
+  }
+
+  for (const original of snapshot.events) {
+    const characterIds = original.characterIds.filter(id => characterIn(id, original.novelId));
+    const placeGone = original.placeId !== undefined && !placeIn(original.placeId, original.novelId);
+    const dangling = original.characterIds.length - characterIds.length + (placeGone ? 1 : 0);
+    if (dangling > 0) {
+      issues.push({
+        kind: 'dangling-participant',
+        message: `Event "${original.title}" refers to ${dangling} deleted character(s) or place(s)`,
+      });
+      fixes.events.set(original.id, { ...original, characterIds, placeId: placeGone ? undefined : original.placeId });
+    }
+  }
+
+  const factionNovel = new Map(snapshot.factions.map(f => [f.id, f.novelId]));
+  const factions = snapshot.factions.map(f => ({ ...f }));
+  for (const faction of factions) {
+    const label = `Faction "${faction.name}"`;
+    checkImages(faction, label, fixes.factions);
+
+    const members = faction.members.filter(m => characterIn(m.characterId, faction.novelId));
+    const hqGone = faction.headquartersPlaceId !== undefined && !placeIn(faction.headquartersPlaceId, faction.novelId);
+    const parentGone = faction.parentFactionId !== undefined
+      && (faction.parentFactionId === faction.id || factionNovel.get(faction.parentFactionId) !== faction.novelId);
+    const dangling = faction.members.length - members.length + (hqGone ? 1 : 0) + (parentGone ? 1 : 0);
+    if (dangling > 0) {
+      issues.push({ kind: 'dangling-member', message: `${label} has ${dangling} reference(s) to deleted entries` });
+      faction.members = members;
+      if (hqGone) faction.headquartersPlaceId = undefined;
+      if (parentGone) faction.parentFactionId = undefined;
+      fixes.factions.set(faction.id, faction);
+    }
+  }
+
+  const items = snapshot.items.map(i => ({ ...i }));
+  for (const item of items) {
+    const label = `Item "${item.name}"`;
+    checkImages(item, label, fixes.items);
+
+    const owners = item.owners.filter(o => characterIn(o.characterId, item.novelId));
+    const locations = item.locations.filter(l => placeIn(l.placeId, item.novelId));
+    const dangling = item.owners.length - owners.length + item.locations.length - locations.length;
+    if (dangling > 0) {
+      issues.push({ kind: 'dangling-holder', message: `${label} has ${dangling} owner(s) or location(s) that no longer exist` });
+      item.owners = owners;
+      item.locations = locations;
+      fixes.items.set(item.id, item);
+    }
+  }
+
+  // Link fields can point at any kind of record, so look targets up by kind
+  const novelOf: Record<string, Map<string, string>> = {
+    character: new Map(snapshot.characters.map(c => [c.id, c.novelId])),
+    place: new Map(snapshot.places.map(p => [p.id, p.novelId])),
+    faction: new Map(snapshot.factions.map(f => [f.id, f.novelId])),
+    item: new Map(snapshot.items.map(i => [i.id, i.novelId])),
+    custom: new Map(snapshot.customEntities.map(e => [e.id, e.novelId])),
+  };
+  const customTypes = new Map(snapshot.customTypes.map(t => [t.id, t]));
+  const customEntities = snapshot.customEntities.map(e => ({ ...e, values: { ...e.values } }));
+  for (const entity of customEntities) {
+    const type = customTypes.get(entity.typeId);
+    if (!type) continue;
+    const label = `${type.name} "${entity.name}"`;
+
+    let danglingLinks = 0;
+    let missingImages = 0;
+    for (const field of type.fields.filter(isIdListField)) {
+      const ids = getIdList(entity.values[field.id]);
+      const kept = field.type === 'image'
+        ? ids.filter(id => existingImages.has(id))
+        : ids.filter(id => novelOf[field.linkTarget ?? 'character'].get(id) === entity.novelId);
+      if (kept.length === ids.length) continue;
+      if (field.type === 'image') missingImages += ids.length - kept.length;
+      else danglingLinks += ids.length - kept.length;
+      entity.values[field.id] = kept;
+    }
+
+    if (danglingLinks > 0) {
+      issues.push({ kind: 'dangling-field-link', message: `${label} links to ${danglingLinks} deleted record(s)` });
+    }
+    if (missingImages > 0) {
+      issues.push({ kind: 'missing-image', message: `${label} references ${missingImages} missing image(s)` });
+    }
+    if (danglingLinks > 0 || missingImages > 0) fixes.customEntities.set(entity.id, entity);
+  }
+
+  // A map is nothing without its image, so those are removed outright
+  const maps = snapshot.maps.filter(m => {
+    if (existingImages.has(m.imageId)) return true;
+    issues.push({ kind: 'missing-image', message: `Map "${m.name}" has lost its image and will be removed` });
+    fixes.mapIds.push(m.id);
+    return false;
+  }).map(m => ({ ...m }));
+  for (const map of maps) {
+    const pins = map.pins.filter(p => placeIn(p.placeId, map.novelId));
+    if (pins.length === map.pins.length) continue;
+    issues.push({
+      kind: 'dangling-pin',
+      message: `Map "${map.name}" has ${map.pins.length - pins.length} pin(s) for deleted places`,
+    });
+    map.pins = pins;
+    fixes.maps.set(map.id, map);
+  }
+
+  const referenced = new Set(listImageRefs({
+    novels: snapshot.novels,
+    characters: [...characters.values()],
+    places: [...places.values()],
+    factions,
+    items,
+    customTypes: snapshot.customTypes,
+    customEntities,
+    maps,
+  }));
+  const orphaned = snapshot.imageIds.filter(id => !referenced.has(id));
+  if (orphaned.length > 0) {
+    issues.push({ kind: 'orphaned-image', message: `${orphaned.length} stored image(s) are not used anywhere` });
+    fixes.imageIds.push(...orphaned);
+  }
+
+  return { issues, fixes };
+};
+
+export const integrityDB = {
+  async check(): Promise<IntegrityReport> {
+    const db = await getDB();
+    const snapshot: IntegritySnapshot = {
+      novels: await db.getAll('novels'),
+      characters: await db.getAll('characters'),
+      places: await db.getAll('places'),
+      notes: await db.getAll('notes'),
+      relationships: await db.getAll('relationships'),
+      tags: await db.getAll('tags'),
+      chapters: await db.getAll('chapters'),
+      events: await db.getAll('events'),
+      factions: await db.getAll('factions'),
+      items: await db.getAll('items'),
+      customTypes: await db.getAll('customTypes'),
+      customEntities: await db.getAll('customEntities'),
+      maps: await db.getAll('maps'),
+      imageIds: await db.getAllKeys('images'),
+    };
+    return { issues: analyzeIntegrity(snapshot).issues, repaired: false };
+  },
+
+  async repair(): Promise<IntegrityReport> {
+    const db = await getDB();
+    const tx = db.transaction(['novels', 'tags', 'customTypes', ...LINK_STORES], 'readwrite');
+    const snapshot: IntegritySnapshot = {
+      novels: await tx.objectStore('novels').getAll(),
+      characters: await tx.objectStore('characters').getAll(),
+      places: await tx.objectStore('places').getAll(),
+      notes: await tx.objectStore('notes').getAll(),
+      relationships: await tx.objectStore('relationships').getAll(),
+      tags: await tx.objectStore('tags').getAll(),
+      chapters: await tx.objectStore('chapters').getAll(),
+      events: await tx.objectStore('events').getAll(),
+      factions: await tx.objectStore('factions').getAll(),
+      items: await tx.objectStore('items').getAll(),
+      customTypes: await tx.objectStore('customTypes').getAll(),
+      customEntities: await tx.objectStore('customEntities').getAll(),
+      maps: await tx.objectStore('maps').getAll(),
+      imageIds: await tx.objectStore('images').getAllKeys(),
+    };
+    const { issues, fixes } = analyzeIntegrity(snapshot);
+    const now = Date.now();
+
+    for (const char of fixes.characters.values()) {
+      await tx.objectStore('characters').put({ ...char, updatedAt: now });
+    }
+    for (const place of fixes.places.values()) {
+      await tx.objectStore('places').put({ ...place, updatedAt: now });
+    }
+    for (const note of fixes.notes.values()) {
+      await tx.objectStore('notes').put({ ...note, updatedAt: now });
+    }
+    for (const chapter of fixes.chapters.values()) {
+      await tx.objectStore('chapters').put({ ...chapter, updatedAt: now });
+    }
+    for (const event of fixes.events.values()) {
+      await tx.objectStore('events').put({ ...event, updatedAt: now });
+    }
+    for (const faction of fixes.factions.values()) {
+      await tx.objectStore('factions').put({ ...faction, updatedAt: now });
+    }
+    for (const item of fixes.items.values()) {
+      await tx.objectStore('items').put({ ...item, updatedAt: now });
+    }
+    for (const entity of fixes.customEntities.values()) {
+      await tx.objectStore('customEntities').put({ ...entity, updatedAt: now });
+    }
+    for (const map of fixes.maps.values()) {
+      await tx.objectStore('maps').put({ ...map, updatedAt: now });
+    }
+    for (const id of fixes.relationshipIds) {
+      await tx.objectStore('relationships').delete(id);
+    }
+    for (const id of fixes.mapIds) {
+      await tx.objectStore('maps').delete(id);
+    }
+    for (const id of fixes.imageIds) {
+      await tx.objectStore('images').delete(id);
+    }
+    // Repairs above may have dropped references
+    await recountImageRefs(tx);
+    await tx.done;
+
+    return { issues, repaired: true };
   },
 };
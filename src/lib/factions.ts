@@ -0,0 +1,35 @@
+import { Faction } from '@/types/novel';
+
+// Ids of every faction nested (at any depth) under the given one
+export const getFactionDescendantIds = (factions: Faction[], id: string): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const f of factions) {
+      if (f.parentFactionId === current && !descendants.has(f.id)) {
+        descendants.add(f.id);
+        queue.push(f.id);
+      }
+    }
+  }
+  return descendants;
+};
+
+// Factions that can be chosen as the parent without creating a cycle
+export const getParentFactionOptions = (factions: Faction[], id: string): Faction[] => {
+  const excluded = getFactionDescendantIds(factions, id);
+  excluded.add(id);
+  return factions.filter(f => !excluded.has(f.id));
+};
+
+export const getCharacterMemberships = (factions: Faction[], characterId: string) =>
+  factions.flatMap(faction =>
+    faction.members
+      .filter(m => m.characterId === characterId)
+      .map(member => ({ faction, member }))
+  );
+
+// "Spymaster · Re'lar", "Spymaster" or null
+export const formatMembership = (member: { role?: string; rank?: string }): string | null =>
+  [member.role, member.rank].filter(Boolean).join(' · ') || null;
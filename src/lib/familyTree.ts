@@ -0,0 +1,170 @@
+import { Relationship } from '@/types/novel';
+
+// Relationship types that make up a family tree
+const FAMILY_TYPES = new Set(['parent', 'spouse', 'sibling']);
+
+export interface FamilyLinks {
+  parents: Map<string, Set<string>>;
+  children: Map<string, Set<string>>;
+  spouses: Map<string, Set<string>>;
+  siblings: Map<string, Set<string>>;
+}
+
+export interface FamilyTreeNode {
+  id: string; // Character id
+  generation: number; // 0 is the oldest generation shown
+  x: number; // Column, centred on 0
+}
+
+export interface FamilyTree {
+  nodes: FamilyTreeNode[];
+  couples: [string, string][];
+  // Children drawn under the parents they have in the tree
+  descents: { parentIds: string[]; childId: string }[];
+  // Siblings with no parent in the tree are joined directly
+  siblingPairs: [string, string][];
+}
+
+const add = (map: Map<string, Set<string>>, key: string, value: string) => {
+  if (!map.has(key)) map.set(key, new Set());
+  map.get(key)!.add(value);
+};
+
+const get = (map: Map<string, Set<string>>, key: string): string[] => [...(map.get(key) ?? [])];
+
+// A parent relationship reads "source is parent of target"
+export const getFamilyLinks = (relationships: Relationship[]): FamilyLinks => {
+  const links: FamilyLinks = { parents: new Map(), children: new Map(), spouses: new Map(), siblings: new Map() };
+  relationships.filter(r => FAMILY_TYPES.has(r.type) && r.sourceId !== r.targetId).forEach(r => {
+    if (r.type === 'parent') {
+      add(links.children, r.sourceId, r.targetId);
+      add(links.parents, r.targetId, r.sourceId);
+    } else {
+      const map = r.type === 'spouse' ? links.spouses : links.siblings;
+      add(map, r.sourceId, r.targetId);
+      add(map, r.targetId, r.sourceId);
+    }
+  });
+  return links;
+};
+
+export const hasFamily = (links: FamilyLinks, id: string): boolean =>
+  [links.parents, links.children, links.spouses, links.siblings].some(map => (map.get(id)?.size ?? 0) > 0);
+
+// Everyone connected to the character through any chain of family links
+export const getRelatives = (links: FamilyLinks, id: string): string[] => {
+  const seen = new Set([id]);
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    [links.parents, links.children, links.spouses, links.siblings]
+      .flatMap(map => get(map, current))
+      .forEach(next => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      });
+  }
+  return [...seen];
+};
+
+// Members of a house plus the people they married into it
+export const getHouseFamily = (links: FamilyLinks, memberIds: string[]): string[] =>
+  [...new Set([...memberIds, ...memberIds.flatMap(id => get(links.spouses, id))])];
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Lays the given characters out by generation. Generations come from a walk
+ * along the family links (parents one row up, children one row down,
+ * spouses and siblings on the same row); within a row people sit under
+ * their parents and next to their spouses.
+ */
+export const layoutFamilyTree = (ids: string[], links: FamilyLinks): FamilyTree => {
+  const included = new Set(ids);
+  const within = (map: Map<string, Set<string>>, id: string) => get(map, id).filter(other => included.has(other));
+
+  // Assign generations, one connected group at a time
+  const generation = new Map<string, number>();
+  ids.forEach(start => {
+    if (generation.has(start)) return;
+    generation.set(start, 0);
+    const queue = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const gen = generation.get(current)!;
+      const steps: [string[], number][] = [
+        [within(links.parents, current), gen - 1],
+        [within(links.children, current), gen + 1],
+        [within(links.spouses, current), gen],
+        [within(links.siblings, current), gen],
+      ];
+      steps.forEach(([others, next]) => others.forEach(other => {
+        if (!generation.has(other)) {
+          generation.set(other, next);
+          queue.push(other);
+        }
+      }));
+    }
+  });
+  const oldest = Math.min(0, ...generation.values());
+  ids.forEach(id => generation.set(id, generation.get(id)! - oldest));
+
+  const rows: string[][] = [];
+  ids.forEach(id => {
+    const gen = generation.get(id)!;
+    if (!rows[gen]) rows[gen] = [];
+    rows[gen].push(id);
+  });
+
+  // Order each row by where the previous row put the parents, then keep
+  // spouses side by side
+  const x = new Map<string, number>();
+  rows.forEach(row => {
+    const parentKey = (id: string) => {
+      const placed = within(links.parents, id).filter(p => x.has(p));
+      return placed.length > 0 ? mean(placed.map(p => x.get(p)!)) : undefined;
+    };
+    const keys = new Map<string, number | undefined>(row.map(id => [id, parentKey(id)]));
+    const borrow = (map: Map<string, Set<string>>) => row.forEach(id => {
+      if (keys.get(id) !== undefined) return;
+      const known = within(map, id).map(other => keys.get(other)).filter((k): k is number => k !== undefined);
+      if (known.length > 0) keys.set(id, mean(known));
+    });
+    borrow(links.siblings);
+    borrow(links.spouses);
+
+    const byKey = row
+      .map((id, index) => ({ id, index, key: keys.get(id) }))
+      .sort((a, b) => (a.key ?? Infinity) - (b.key ?? Infinity) || a.index - b.index)
+      .map(({ id }) => id);
+
+    const ordered: string[] = [];
+    byKey.forEach(id => {
+      if (ordered.includes(id)) return;
+      ordered.push(id);
+      within(links.spouses, id)
+        .filter(s => generation.get(s) === generation.get(id) && !ordered.includes(s))
+        .forEach(s => ordered.push(s));
+    });
+    ordered.forEach((id, index) => x.set(id, index - (ordered.length - 1) / 2));
+  });
+
+  const nodes = ids.map(id => ({ id, generation: generation.get(id)!, x: x.get(id)! }));
+
+  const couples: [string, string][] = [];
+  const siblingPairs: [string, string][] = [];
+  ids.forEach(id => {
+    within(links.spouses, id).filter(s => id < s).forEach(s => couples.push([id, s]));
+    within(links.siblings, id)
+      .filter(s => id < s && within(links.parents, id).length === 0 && within(links.parents, s).length === 0)
+      .forEach(s => siblingPairs.push([id, s]));
+  });
+
+  const descents = ids
+    .map(childId => ({ parentIds: within(links.parents, childId), childId }))
+    .filter(d => d.parentIds.length > 0);
+
+  return { nodes, couples, descents, siblingPairs };
+};
@@ -0,0 +1,122 @@
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+interface LayoutOptions {
+  width: number;
+  height: number;
+  iterations?: number;
+}
+
+/**
+ * Fruchterman–Reingold force-directed layout. Runs synchronously for a fixed
+ * number of iterations and returns positions centred on the origin.
+ * Nodes start on a circle so the result is stable for the same input, and the
+ * final layout is shrunk to fit inside the given area.
+ */
+export const computeForceLayout = (
+  nodeIds: string[],
+  edges: LayoutEdge[],
+  { width, height, iterations = 300 }: LayoutOptions
+): Map<string, Point> => {
+  const positions = new Map<string, Point>();
+  const n = nodeIds.length;
+  if (n === 0) return positions;
+
+  const radius = Math.min(width, height) / 3;
+  nodeIds.forEach((id, i) => {
+    const angle = (2 * Math.PI * i) / n;
+    positions.set(id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+  });
+  if (n === 1) return positions;
+
+  const k = Math.sqrt((width * height) / n) * 0.6;
+  const validEdges = edges.filter(e => positions.has(e.source) && positions.has(e.target) && e.source !== e.target);
+  let temperature = width / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const disp = new Map<string, Point>(nodeIds.map(id => [id, { x: 0, y: 0 }]));
+
+    // Repulsion between every pair
+    for (let i = 0; i < n; i++) {
+      const a = positions.get(nodeIds[i])!;
+      const da = disp.get(nodeIds[i])!;
+      for (let j = i + 1; j < n; j++) {
+        const b = positions.get(nodeIds[j])!;
+        const db = disp.get(nodeIds[j])!;
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        let dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < 0.01) {
+          // Nudge coincident nodes apart deterministically
+          dx = 0.01 * (i - j);
+          dy = 0.01;
+          dist = Math.sqrt(dx * dx + dy * dy);
+        }
+        const force = (k * k) / dist;
+        const fx = (dx / dist) * force;
+        const fy = (dy / dist) * force;
+        da.x += fx;
+        da.y += fy;
+        db.x -= fx;
+        db.y -= fy;
+      }
+    }
+
+    // Attraction along edges
+    for (const edge of validEdges) {
+      const a = positions.get(edge.source)!;
+      const b = positions.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const force = (dist * dist) / k;
+      const fx = (dx / dist) * force;
+      const fy = (dy / dist) * force;
+      disp.get(edge.source)!.x -= fx;
+      disp.get(edge.source)!.y -= fy;
+      disp.get(edge.target)!.x += fx;
+      disp.get(edge.target)!.y += fy;
+    }
+
+    // Apply displacement, capped by temperature, with mild gravity so
+    // disconnected components don't drift away
+    for (const id of nodeIds) {
+      const p = positions.get(id)!;
+      const d = disp.get(id)!;
+      const gravity = (0.1 * Math.sqrt(p.x * p.x + p.y * p.y)) / k;
+      d.x -= p.x * gravity;
+      d.y -= p.y * gravity;
+      const len = Math.max(Math.sqrt(d.x * d.x + d.y * d.y), 0.01);
+      const step = Math.min(len, temperature);
+      p.x += (d.x / len) * step;
+      p.y += (d.y / len) * step;
+    }
+
+    temperature = Math.max(temperature - cooling, 0.5);
+  }
+
+  // Scale down to fit the requested area if the layout spread too wide
+  let maxX = 0;
+  let maxY = 0;
+  positions.forEach(p => {
+    maxX = Math.max(maxX, Math.abs(p.x));
+    maxY = Math.max(maxY, Math.abs(p.y));
+  });
+  const fit = Math.min(1, (width / 2 - 40) / (maxX || 1), (height / 2 - 40) / (maxY || 1));
+  if (fit < 1) {
+    positions.forEach(p => {
+      p.x *= fit;
+      p.y *= fit;
+    });
+  }
+
+  return positions;
+};
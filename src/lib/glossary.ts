@@ -0,0 +1,65 @@
+import { GlossaryTerm } from '@/types/novel';
+
+// Bucket for terms that don't start with a Latin letter
+export const OTHER_LETTER = '#';
+
+export const GLOSSARY_LETTERS = [...'ABCDEFGHIJKLMNOPQRSTUVWXYZ', OTHER_LETTER];
+
+export const sortGlossary = (terms: GlossaryTerm[]): GlossaryTerm[] =>
+  [...terms].sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' }));
+
+// Accents are dropped so "Éclat" files under E
+export const getGlossaryLetter = (term: string): string => {
+  const first = term.trim().normalize('NFD').charAt(0).toUpperCase();
+  return /[A-Z]/.test(first) ? first : OTHER_LETTER;
+};
+
+// Terms grouped by letter, in GLOSSARY_LETTERS order; empty letters are left out
+export const groupGlossary = (terms: GlossaryTerm[]): { letter: string; terms: GlossaryTerm[] }[] => {
+  const groups = new Map<string, GlossaryTerm[]>();
+  for (const term of sortGlossary(terms)) {
+    const letter = getGlossaryLetter(term.term);
+    groups.set(letter, [...(groups.get(letter) ?? []), term]);
+  }
+  return GLOSSARY_LETTERS
+    .filter(letter => groups.has(letter))
+    .map(letter => ({ letter, terms: groups.get(letter)! }));
+};
+
+export const getGlossaryCategories = (terms: GlossaryTerm[]): string[] =>
+  [...new Set(terms.map(t => t.category?.trim()).filter((c): c is string => !!c))]
+    .sort((a, b) => a.localeCompare(b));
+
+export type GlossarySegment = string | { text: string; term: GlossaryTerm };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Builds a function that splits text around whole-word, case-insensitive
+// mentions of the terms. Longer terms are tried first so "Iron Ring" wins over "Ring".
+export const createGlossaryMatcher = (terms: GlossaryTerm[]) => {
+  const byKey = new Map<string, GlossaryTerm>();
+  for (const term of terms) {
+    const key = term.term.trim().toLowerCase();
+    if (key && !byKey.has(key)) byKey.set(key, term);
+  }
+  if (byKey.size === 0) return (text: string): GlossarySegment[] => [text];
+
+  const alternatives = [...byKey.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives})(?![\\p{L}\\p{N}])`, 'giu');
+
+  return (text: string): GlossarySegment[] => {
+    const segments: GlossarySegment[] = [];
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      if (index > last) segments.push(text.slice(last, index));
+      segments.push({ text: match[0], term: byKey.get(match[0].toLowerCase())! });
+      last = index + match[0].length;
+    }
+    if (last < text.length) segments.push(text.slice(last));
+    return segments;
+  };
+};
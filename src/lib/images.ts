@@ -0,0 +1,137 @@
+import { sha256 } from '@/lib/sha256';
+import { ImageSettings, Novel } from '@/types/novel';
+
+// Longest side of a generated thumbnail, in pixels
+export const THUMBNAIL_SIZE = 320;
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = { maxDimension: 2048, quality: 0.85 };
+
+export const MAX_DIMENSION_OPTIONS: { value: number; label: string }[] = [
+  { value: 1024, label: '1024 px' },
+  { value: 1600, label: '1600 px' },
+  { value: 2048, label: '2048 px' },
+  { value: 4096, label: '4096 px' },
+  { value: 0, label: 'Original size' },
+];
+
+export const getImageSettings = (novel: Novel | null): ImageSettings =>
+  novel?.imageSettings ?? DEFAULT_IMAGE_SETTINGS;
+
+// A crop rectangle as fractions of the (rotated) image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  quarterTurns: number; // Clockwise, 0-3
+  crop?: CropRect;
+}
+
+export const NO_EDITS: ImageEdits = { quarterTurns: 0 };
+
+export const blobToDataURL = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// SHA-256 of the image's bytes, as hex; identical images get identical ids
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const bytes = await blob.arrayBuffer();
+  const digest = crypto.subtle
+    ? new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+    : sha256(new Uint8Array(bytes));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Synchronous, so it can run inside an IndexedDB upgrade transaction
+export const dataURLToBlob = (dataUrl: string): Blob => {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, comma);
+  const payload = dataUrl.slice(comma + 1);
+  const type = header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+  if (!header.endsWith(';base64')) return new Blob([decodeURIComponent(payload)], { type });
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality = 0.85): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), type, quality);
+  });
+
+/**
+ * Reads an image's dimensions and draws a thumbnail no larger than
+ * THUMBNAIL_SIZE on its longest side. Images already that small get no
+ * thumbnail; the original is used instead.
+ */
+export const describeImage = async (blob: Blob): Promise<{ width: number; height: number; thumbnail?: Blob }> => {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  try {
+    const scale = THUMBNAIL_SIZE / Math.max(width, height);
+    if (scale >= 1) return { width, height };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    // Browsers that can't encode WebP hand back a PNG, which keeps transparency too
+    return { width, height, thumbnail: await canvasToBlob(canvas, 'image/webp') };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Files pasted or dropped in, minus anything that isn't an image
+export const getImageFiles = (files: FileList | null): File[] =>
+  Array.from(files ?? []).filter(f => f.type.startsWith('image/'));
+
+/**
+ * Rotates, crops and scales an image down to the configured size, then
+ * re-encodes it. JPEGs stay JPEG; everything else becomes WebP so
+ * transparency survives. An untouched image that would only grow by
+ * re-encoding is returned as it was.
+ */
+export const processImage = async (blob: Blob, edits: ImageEdits, settings: ImageSettings): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const turns = ((edits.quarterTurns % 4) + 4) % 4;
+    const sideways = turns % 2 === 1;
+    const rotatedWidth = sideways ? bitmap.height : bitmap.width;
+    const rotatedHeight = sideways ? bitmap.width : bitmap.height;
+
+    const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const cropX = crop.x * rotatedWidth;
+    const cropY = crop.y * rotatedHeight;
+    const cropWidth = Math.max(1, crop.width * rotatedWidth);
+    const cropHeight = Math.max(1, crop.height * rotatedHeight);
+    const scale = settings.maxDimension > 0 ? Math.min(1, settings.maxDimension / Math.max(cropWidth, cropHeight)) : 1;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(cropWidth * scale));
+    canvas.height = Math.max(1, Math.round(cropHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.scale(scale, scale);
+    context.translate(-cropX, -cropY);
+    context.translate(rotatedWidth / 2, rotatedHeight / 2);
+    context.rotate((turns * Math.PI) / 2);
+    context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+
+    const type = blob.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp';
+    const result = await canvasToBlob(canvas, type, settings.quality);
+    const untouched = turns === 0 && !edits.crop && scale === 1;
+    return untouched && result.size >= blob.size ? blob : result;
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,32 @@
+import { Item, ItemLocation, ItemOwner, Novel } from '@/types/novel';
+import { getSpoilerMode } from '@/lib/spoilers';
+
+// True when a from/to chapter span covers the chapter. Without a chapter,
+// only open-ended spans (nothing recorded as lost or moved away) count.
+const spanCovers = (from: number | undefined, to: number | undefined, chapter: number | undefined): boolean => {
+  if (chapter === undefined) return to === undefined;
+  return (from === undefined || from <= chapter) && (to === undefined || to > chapter);
+};
+
+// The chapter "currently" means: the reader's progress while spoilers are on,
+// otherwise the end of the story
+export const getCurrentChapter = (novel: Novel): number | undefined =>
+  getSpoilerMode(novel) === 'off' ? undefined : novel.readingProgress?.chapter;
+
+export const getCurrentOwners = (item: Item, chapter: number | undefined): ItemOwner[] =>
+  item.owners.filter(o => spanCovers(o.acquiredInChapter, o.lostInChapter, chapter));
+
+export const getCurrentLocation = (item: Item, chapter: number | undefined): ItemLocation | undefined => {
+  const current = item.locations.filter(l => spanCovers(l.fromChapter, l.toChapter, chapter));
+  return current[current.length - 1];
+};
+
+export const getHeldItems = (items: Item[], characterId: string, chapter: number | undefined): Item[] =>
+  items.filter(item => getCurrentOwners(item, chapter).some(o => o.characterId === characterId));
+
+// Entries without a start chapter stay first; ties keep their entered order
+export const sortHistory = <T>(entries: T[], getFrom: (entry: T) => number | undefined): T[] =>
+  entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => (getFrom(a.entry) ?? 0) - (getFrom(b.entry) ?? 0) || a.index - b.index)
+    .map(({ entry }) => entry);
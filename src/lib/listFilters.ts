@@ -0,0 +1,146 @@
+import { hasCustomValue } from '@/lib/customEntities';
+import { CustomFieldDef, CustomFieldValue, ListFieldFilter, ListFilters, ListSort } from '@/types/novel';
+
+export const LIST_SORTS: { value: ListSort; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'created', label: 'Newest' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'connected', label: 'Most connected' },
+];
+
+export const DEFAULT_LIST_FILTERS: ListFilters = {
+  query: '',
+  hasImages: false,
+  hasLinks: false,
+  sort: 'name',
+};
+
+// What the toolbar needs to know about a character, place or note
+export interface ListEntry {
+  name: string;
+  searchText: string[]; // Everything the text filter looks at besides the name
+  tags: string[];
+  imageCount: number;
+  linkCount: number;
+  createdAt: number;
+  updatedAt: number;
+  attributes?: Record<string, CustomFieldValue>;
+}
+
+// Attribute fields sort as "field:<id>"
+const FIELD_SORT_PREFIX = 'field:';
+
+// Filter value that keeps every entry with the attribute filled in
+export const ANY_FIELD_VALUE = '*';
+
+export const getFieldSort = (fieldId: string): ListSort => `${FIELD_SORT_PREFIX}${fieldId}`;
+
+const parseFieldSort = (sort: ListSort): string | undefined =>
+  sort.startsWith(FIELD_SORT_PREFIX) ? sort.slice(FIELD_SORT_PREFIX.length) : undefined;
+
+const isListSort = (value: string | null): value is ListSort =>
+  LIST_SORTS.some(s => s.value === value) || !!value?.startsWith(FIELD_SORT_PREFIX);
+
+// "<fieldId>:<value>"; field ids never contain a colon
+const parseFieldFilter = (value: string | null): ListFieldFilter | undefined => {
+  const split = value?.indexOf(':') ?? -1;
+  if (!value || split <= 0 || split === value.length - 1) return undefined;
+  return { fieldId: value.slice(0, split), value: value.slice(split + 1) };
+};
+
+// Query string keys: q, tag, has (comma separated: images, links), field, sort
+export const parseListFilters = (params: URLSearchParams): ListFilters => {
+  const has = (params.get('has') ?? '').split(',');
+  const sort = params.get('sort');
+  return {
+    query: params.get('q') ?? '',
+    tagId: params.get('tag') ?? undefined,
+    hasImages: has.includes('images'),
+    hasLinks: has.includes('links'),
+    field: parseFieldFilter(params.get('field')),
+    sort: isListSort(sort) ? sort : DEFAULT_LIST_FILTERS.sort,
+  };
+};
+
+// Writes the filters into params, leaving defaults out to keep URLs short
+export const writeListFilters = (params: URLSearchParams, filters: ListFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | undefined) => (value ? next.set(key, value) : next.delete(key));
+  const has = [filters.hasImages && 'images', filters.hasLinks && 'links'].filter(Boolean).join(',');
+
+  set('q', filters.query);
+  set('tag', filters.tagId);
+  set('has', has);
+  set('field', filters.field && `${filters.field.fieldId}:${filters.field.value}`);
+  set('sort', filters.sort === DEFAULT_LIST_FILTERS.sort ? undefined : filters.sort);
+  return next;
+};
+
+export const clearListFilters = (params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  ['q', 'tag', 'has', 'field', 'sort'].forEach(key => next.delete(key));
+  return next;
+};
+
+export const isFiltering = (filters: ListFilters): boolean =>
+  !!filters.query.trim() || !!filters.tagId || filters.hasImages || filters.hasLinks || !!filters.field;
+
+// Filters and sorts on a field that has since been deleted are ignored
+export const withKnownFields = (filters: ListFilters, fields: CustomFieldDef[]): ListFilters => {
+  const known = (fieldId: string | undefined) => !fieldId || fields.some(f => f.id === fieldId);
+  const sortFieldId = parseFieldSort(filters.sort);
+  return {
+    ...filters,
+    field: known(filters.field?.fieldId) ? filters.field : undefined,
+    sort: known(sortFieldId) ? filters.sort : DEFAULT_LIST_FILTERS.sort,
+  };
+};
+
+export const applyListFilters = <T>(
+  items: T[],
+  filters: ListFilters,
+  toEntry: (item: T) => ListEntry
+): T[] => {
+  const query = filters.query.trim().toLowerCase();
+  const field = filters.field;
+  const matchesField = (entry: ListEntry) => {
+    const value = entry.attributes?.[field!.fieldId];
+    return field!.value === ANY_FIELD_VALUE ? hasCustomValue(value) : hasCustomValue(value) && String(value) === field!.value;
+  };
+  const entries = items.map(item => ({ item, entry: toEntry(item) }));
+
+  const matching = entries.filter(({ entry }) =>
+    (!query || [entry.name, ...entry.searchText].some(text => text.toLowerCase().includes(query)))
+    && (!filters.tagId || entry.tags.includes(filters.tagId))
+    && (!filters.hasImages || entry.imageCount > 0)
+    && (!filters.hasLinks || entry.linkCount > 0)
+    && (!field || matchesField(entry))
+  );
+
+  const byName = (a: ListEntry, b: ListEntry) => a.name.localeCompare(b.name);
+  const compare: Record<string, (a: ListEntry, b: ListEntry) => number> = {
+    name: byName,
+    created: (a, b) => b.createdAt - a.createdAt,
+    updated: (a, b) => b.updatedAt - a.updatedAt,
+    connected: (a, b) => b.linkCount - a.linkCount || byName(a, b),
+  };
+  const sortFieldId = parseFieldSort(filters.sort);
+  const sort = sortFieldId
+    ? (a: ListEntry, b: ListEntry) => compareValues(a.attributes?.[sortFieldId], b.attributes?.[sortFieldId]) || byName(a, b)
+    : compare[filters.sort] ?? byName;
+
+  return matching
+    .sort((a, b) => sort(a.entry, b.entry))
+    .map(({ item }) => item);
+};
+
+// Entries with a value come first; numbers ascend, text is alphabetical
+// and "Yes" comes before "No"
+const compareValues = (a: CustomFieldValue | undefined, b: CustomFieldValue | undefined): number => {
+  const hasA = hasCustomValue(a);
+  const hasB = hasCustomValue(b);
+  if (!hasA || !hasB) return Number(hasB) - Number(hasA);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(b) - Number(a);
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
@@ -0,0 +1,18 @@
+import { MapPin, Novel, Place, WorldMap } from '@/types/novel';
+import { isSpoiler } from '@/lib/spoilers';
+
+export const sortMaps = (maps: WorldMap[]): WorldMap[] =>
+  [...maps].sort((a, b) => a.order - b.order);
+
+// Keeps pin coordinates on the image
+export const clampPin = (value: number) => Math.min(1, Math.max(0, value));
+
+// Pins for places the reader has reached; the rest stay off the map entirely
+export const getVisiblePins = (novel: Novel, map: WorldMap, places: Place[]): { pin: MapPin; place: Place }[] => {
+  const byId = new Map(places.map(p => [p.id, p]));
+  return map.pins
+    .map(pin => ({ pin, place: byId.get(pin.placeId) }))
+    .filter((entry): entry is { pin: MapPin; place: Place } =>
+      !!entry.place && !isSpoiler(novel, entry.place.introducedInChapter)
+    );
+};
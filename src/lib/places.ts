@@ -0,0 +1,86 @@
+import { Character, Novel, Place } from '@/types/novel';
+import { isSpoiler } from '@/lib/spoilers';
+
+// Ids of every place nested (at any depth) inside the given one
+export const getPlaceDescendantIds = (places: Place[], id: string): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const p of places) {
+      if (p.parentPlaceId === current && !descendants.has(p.id)) {
+        descendants.add(p.id);
+        queue.push(p.id);
+      }
+    }
+  }
+  return descendants;
+};
+
+// Places that can be chosen as the parent without creating a cycle
+export const getParentPlaceOptions = (places: Place[], id: string): Place[] => {
+  const excluded = getPlaceDescendantIds(places, id);
+  excluded.add(id);
+  return places.filter(p => !excluded.has(p.id));
+};
+
+// Outermost first: continent, kingdom, city...
+export const getPlaceAncestors = (places: Place[], place: Place): Place[] => {
+  const byId = new Map(places.map(p => [p.id, p]));
+  const ancestors: Place[] = [];
+  let parent = place.parentPlaceId ? byId.get(place.parentPlaceId) : undefined;
+  while (parent && parent.id !== place.id && !ancestors.includes(parent)) {
+    ancestors.unshift(parent);
+    parent = parent.parentPlaceId ? byId.get(parent.parentPlaceId) : undefined;
+  }
+  return ancestors;
+};
+
+// Places without a parent, or whose parent no longer exists. A place whose
+// chain of parents loops back to itself is treated as a root so it still shows.
+export const getRootPlaces = (places: Place[]): Place[] => {
+  const ids = new Set(places.map(p => p.id));
+  return places.filter(p =>
+    !p.parentPlaceId
+    || !ids.has(p.parentPlaceId)
+    || getPlaceAncestors(places, p).some(a => a.parentPlaceId === p.id)
+  );
+};
+
+export const getChildPlaces = (places: Place[], id: string): Place[] =>
+  places.filter(p => p.parentPlaceId === id && p.id !== id);
+
+// Characters linked to the place or anywhere inside it, mapped to the
+// place they are actually linked to (the nearest one wins). Places failing
+// `counts` are still searched inside but their own links are skipped.
+export const getRollupCharacters = (
+  places: Place[],
+  id: string,
+  counts: (place: Place) => boolean = () => true
+): Map<string, Place> => {
+  const byId = new Map(places.map(p => [p.id, p]));
+  const rollup = new Map<string, Place>();
+  [id, ...getPlaceDescendantIds(places, id)].forEach(placeId => {
+    const place = byId.get(placeId);
+    if (!place || !counts(place)) return;
+    place.linkedCharacterIds.forEach(characterId => {
+      if (!rollup.has(characterId)) rollup.set(characterId, place);
+    });
+  });
+  return rollup;
+};
+
+// The rollup as the reader may see it: characters they have reached, linked
+// through sub-places they have reached, so hidden places don't give away
+// that someone is inside them
+export const getVisibleRollupCharacters = (
+  novel: Novel,
+  places: Place[],
+  characters: Character[],
+  id: string
+): { character: Character; at: Place }[] =>
+  [...getRollupCharacters(places, id, p => p.id === id || !isSpoiler(novel, p.introducedInChapter))]
+    .map(([characterId, at]) => ({ character: characters.find(c => c.id === characterId), at }))
+    .filter((entry): entry is { character: Character; at: Place } =>
+      !!entry.character && !isSpoiler(novel, entry.character.introducedInChapter)
+    );
@@ -0,0 +1,60 @@
+import { Relationship, RelationshipType } from '@/types/novel';
+
+interface RelationshipTypeInfo {
+  value: RelationshipType;
+  label: string;
+  // Wording from the target's point of view; only set for directional types
+  inverseLabel?: string;
+  directional: boolean;
+}
+
+export const RELATIONSHIP_TYPES: RelationshipTypeInfo[] = [
+  { value: 'related', label: 'Related to', directional: false },
+  { value: 'parent', label: 'Parent of', inverseLabel: 'Child of', directional: true },
+  { value: 'sibling', label: 'Sibling of', directional: false },
+  { value: 'spouse', label: 'Married to', directional: false },
+  { value: 'betrothed', label: 'Betrothed to', directional: false },
+  { value: 'romantic', label: 'Romantically involved with', directional: false },
+  { value: 'friend', label: 'Friend of', directional: false },
+  { value: 'ally', label: 'Allied with', directional: false },
+  { value: 'rival', label: 'Rival of', directional: false },
+  { value: 'enemy', label: 'Enemy of', directional: false },
+  { value: 'mentor', label: 'Mentor of', inverseLabel: 'Student of', directional: true },
+  { value: 'serves', label: 'Serves', inverseLabel: 'Served by', directional: true },
+  { value: 'other', label: 'Other', directional: false },
+];
+
+export const getRelationshipTypeInfo = (type: RelationshipType): RelationshipTypeInfo =>
+  RELATIONSHIP_TYPES.find(t => t.value === type) ?? RELATIONSHIP_TYPES[0];
+
+/**
+ * Describes a relationship as seen from one of its two characters: "Parent of"
+ * from the parent, "Child of" from the child. When a directional relationship
+ * has a custom label there is no inverse wording, so `incoming` is set and the
+ * phrase should be read from the other character towards the viewer.
+ */
+export const describeRelationship = (
+  relationship: Relationship,
+  perspectiveId: string
+): { phrase: string; otherId: string; incoming: boolean } => {
+  const info = getRelationshipTypeInfo(relationship.type);
+  const isSource = relationship.sourceId === perspectiveId;
+  const otherId = isSource ? relationship.targetId : relationship.sourceId;
+  const label = relationship.label?.trim();
+
+  if (!relationship.directional || isSource) {
+    return { phrase: label || info.label, otherId, incoming: false };
+  }
+  if (!label && info.inverseLabel) {
+    return { phrase: info.inverseLabel, otherId, incoming: false };
+  }
+  return { phrase: label || info.label, otherId, incoming: true };
+};
+
+// Everyone joined to the character by at least one relationship, either way round
+export const getRelatedCharacterIds = (relationships: Relationship[], characterId: string): Set<string> =>
+  new Set(
+    relationships
+      .filter(r => r.sourceId === characterId || r.targetId === characterId)
+      .map(r => (r.sourceId === characterId ? r.targetId : r.sourceId))
+  );
@@ -0,0 +1,162 @@
+import { Novel, SearchLibrary, SearchResult, SearchResultType, SearchSnippet } from '@/types/novel';
+import { getAliasNames } from '@/lib/aliases';
+import { isSpoiler } from '@/lib/spoilers';
+import { stripWikiLinks } from '@/lib/wikiLinks';
+
+const MAX_RESULTS = 30;
+const SNIPPET_BEFORE = 30;
+const SNIPPET_AFTER = 90;
+const BODY_SCORE = 15;
+const ALIAS_WEIGHT = 0.9;
+
+interface Searchable {
+  type: SearchResultType;
+  id: string;
+  novelId: string;
+  title: string;
+  subtitle: string;
+  aliases: string[];
+  body: string;
+}
+
+const tokenize = (query: string): string[] => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Flattens Markdown and wiki links into plain text for matching and snippets
+const toPlainText = (text: string): string =>
+  stripWikiLinks(text).replace(/[#*_`>~]+/g, '').replace(/\s+/g, ' ').trim();
+
+// How well a term matches a name: exact, prefix, start of a word, anywhere
+const scoreName = (name: string, term: string): number => {
+  const lower = name.toLowerCase();
+  if (lower === term) return 100;
+  if (lower.startsWith(term)) return 80;
+  if (lower.split(/[\s\-_'’.,()]+/).some(word => word.startsWith(term))) return 60;
+  if (lower.includes(term)) return 40;
+  return 0;
+};
+
+const buildSnippet = (body: string, terms: string[]): SearchSnippet | undefined => {
+  if (!body) return undefined;
+  const lower = body.toLowerCase();
+  for (const term of terms) {
+    const index = lower.indexOf(term);
+    if (index === -1) continue;
+    const start = Math.max(0, index - SNIPPET_BEFORE);
+    const end = Math.min(body.length, index + term.length + SNIPPET_AFTER);
+    return {
+      before: (start > 0 ? '…' : '') + body.slice(start, index),
+      match: body.slice(index, index + term.length),
+      after: body.slice(index + term.length, end) + (end < body.length ? '…' : ''),
+    };
+  }
+  // Nothing in the body matched; show its beginning for context
+  const end = Math.min(body.length, SNIPPET_BEFORE + SNIPPET_AFTER);
+  return { before: '', match: '', after: body.slice(0, end) + (end < body.length ? '…' : '') };
+};
+
+// Every term has to match somewhere; names count for more than body text
+const scoreEntry = (entry: Searchable, terms: string[]): SearchResult | null => {
+  let score = 0;
+  let matchedAlias: string | undefined;
+  const body = entry.body.toLowerCase();
+
+  for (const term of terms) {
+    const nameScore = scoreName(entry.title, term);
+    let best = nameScore;
+    for (const alias of entry.aliases) {
+      const aliasScore = scoreName(alias, term) * ALIAS_WEIGHT;
+      if (aliasScore > best) {
+        best = aliasScore;
+        matchedAlias = alias;
+      }
+    }
+    if (best === 0 && body.includes(term)) best = BODY_SCORE;
+    if (best === 0) return null;
+    score += best;
+  }
+
+  return {
+    type: entry.type,
+    id: entry.id,
+    novelId: entry.novelId,
+    title: entry.title,
+    subtitle: entry.subtitle,
+    matchedAlias,
+    snippet: buildSnippet(entry.body, terms),
+    score,
+  };
+};
+
+// Flattens the library into searchable entries, leaving out anything that
+// would spoil a novel past the reader's current chapter
+const toSearchables = ({ novels, characters, places, notes }: SearchLibrary): Searchable[] => {
+  const novelById = new Map(novels.map(n => [n.id, n]));
+  const visible = (novel: Novel | undefined, chapter: number | undefined): novel is Novel =>
+    !!novel && !isSpoiler(novel, chapter);
+
+  const entries: Searchable[] = novels.map(n => ({
+    type: 'novel',
+    id: n.id,
+    novelId: n.id,
+    title: n.title,
+    subtitle: n.author ? `by ${n.author}` : 'Novel',
+    aliases: [],
+    body: '',
+  }));
+
+  for (const c of characters) {
+    const novel = novelById.get(c.novelId);
+    if (!visible(novel, c.introducedInChapter)) continue;
+    entries.push({
+      type: 'character',
+      id: c.id,
+      novelId: c.novelId,
+      title: c.name,
+      subtitle: novel.title,
+      aliases: getAliasNames(c),
+      body: toPlainText(c.description),
+    });
+  }
+  for (const p of places) {
+    const novel = novelById.get(p.novelId);
+    if (!visible(novel, p.introducedInChapter)) continue;
+    entries.push({
+      type: 'place',
+      id: p.id,
+      novelId: p.novelId,
+      title: p.name,
+      subtitle: novel.title,
+      aliases: [],
+      body: toPlainText(p.description),
+    });
+  }
+  for (const n of notes) {
+    const novel = novelById.get(n.novelId);
+    if (!visible(novel, n.introducedInChapter)) continue;
+    entries.push({
+      type: 'note',
+      id: n.id,
+      novelId: n.novelId,
+      title: n.title,
+      subtitle: novel.title,
+      aliases: [],
+      body: toPlainText(n.content),
+    });
+  }
+
+  return entries;
+};
+
+export const searchLibrary = (library: SearchLibrary, query: string): SearchResult[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  return toSearchables(library)
+    .map(entry => scoreEntry(entry, terms))
+    .filter((result): result is SearchResult => !!result)
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+    .slice(0, MAX_RESULTS);
+};
+
+export const getSearchResultPath = (result: SearchResult): string =>
+  result.type === 'novel' ? `/novel/${result.id}` : `/novel/${result.novelId}/${result.type}/${result.id}`;
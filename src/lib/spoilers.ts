@@ -0,0 +1,27 @@
+import { formatChapterNumber } from '@/lib/chapters';
+import { Chapter, Novel, SpoilerMode } from '@/types/novel';
+
+export const getSpoilerMode = (novel: Novel): SpoilerMode =>
+  novel.readingProgress ? novel.spoilerMode ?? 'blur' : 'off';
+
+// True when an entry is introduced after the chapter the reader has reached
+export const isSpoiler = (novel: Novel, introducedInChapter: number | undefined): boolean => {
+  if (getSpoilerMode(novel) === 'off' || introducedInChapter === undefined) return false;
+  return introducedInChapter > novel.readingProgress!.chapter;
+};
+
+// Chapters compare by volume first, as numbering may restart in each one.
+// Chapters without a volume come first, as in sortChapters.
+export const isChapterSpoiler = (novel: Novel, chapter: Pick<Chapter, 'number' | 'volume'>): boolean => {
+  if (getSpoilerMode(novel) === 'off') return false;
+  const progress = novel.readingProgress!;
+  const volumesAhead = (chapter.volume ?? 0) - (progress.volume ?? 0);
+  return volumesAhead > 0 || (volumesAhead === 0 && chapter.number > progress.chapter);
+};
+
+export const formatProgress = (novel: Novel): string | null => {
+  const progress = novel.readingProgress;
+  if (!progress) return null;
+  const chapter = formatChapterNumber({ number: progress.chapter, volume: progress.volume });
+  return progress.page ? `${chapter}, p. ${progress.page}` : chapter;
+};
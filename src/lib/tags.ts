@@ -0,0 +1,72 @@
+import type { CSSProperties } from 'react';
+import {
+  Crown,
+  Eye,
+  Flame,
+  Ghost,
+  GraduationCap,
+  Heart,
+  LucideIcon,
+  Shield,
+  Skull,
+  Sparkles,
+  Star,
+  Sword,
+  User,
+} from 'lucide-react';
+import { Tag, TagIcon } from '@/types/novel';
+
+// Seeded into every novel. `legacy` is the value characters stored before tags
+// became per-novel records, used to migrate old data and old backups.
+export const DEFAULT_TAGS: { legacy: string; name: string; color: string; icon: TagIcon }[] = [
+  { legacy: 'mc', name: 'Main character', color: '#ee9d2b', icon: 'star' },
+  { legacy: 'villain', name: 'Villain', color: '#dc2828', icon: 'skull' },
+  { legacy: 'ally', name: 'Ally', color: '#437052', icon: 'shield' },
+  { legacy: 'mentor', name: 'Mentor', color: '#f4c025', icon: 'graduation-cap' },
+  { legacy: 'love-interest', name: 'Love interest', color: '#943847', icon: 'heart' },
+  { legacy: 'side', name: 'Side', color: '#9d8f7b', icon: 'user' },
+];
+
+export const TAG_ICONS: Record<TagIcon, LucideIcon> = {
+  star: Star,
+  skull: Skull,
+  shield: Shield,
+  'graduation-cap': GraduationCap,
+  heart: Heart,
+  user: User,
+  crown: Crown,
+  sword: Sword,
+  sparkles: Sparkles,
+  flame: Flame,
+  eye: Eye,
+  ghost: Ghost,
+};
+
+export const TAG_COLORS = [
+  '#ee9d2b', '#dc2828', '#437052', '#f4c025', '#943847', '#9d8f7b',
+  '#c36522', '#3b82f6', '#8b5cf6', '#14b8a6', '#ec4899', '#64748b',
+];
+
+export const UNTAGGED_COLOR = '#d6cbb8';
+
+export const sortTags = (tags: Tag[]): Tag[] =>
+  [...tags].sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+
+// Badge colours derived from a single tag colour, matching the built-in variants
+export const getTagStyle = (color: string): CSSProperties => ({
+  color,
+  backgroundColor: `${color}33`,
+  borderColor: `${color}4d`,
+});
+
+// An entity's first tag that still exists; it decides colours in graphs and lists
+export const getPrimaryTag = (tagIds: string[], tags: Tag[]): Tag | undefined => {
+  for (const id of tagIds) {
+    const tag = tags.find(t => t.id === id);
+    if (tag) return tag;
+  }
+  return undefined;
+};
+
+export const getPrimaryTagColor = (tagIds: string[], tags: Tag[]): string =>
+  getPrimaryTag(tagIds, tags)?.color ?? UNTAGGED_COLOR;
@@ -0,0 +1,37 @@
+import { StoryEvent } from '@/types/novel';
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Orders events by chapter, then by in-world date, then by when they were
+// recorded. Events without a chapter or date go after those that have one.
+export const sortEvents = (events: StoryEvent[]): StoryEvent[] =>
+  [...events].sort((a, b) => {
+    if (a.chapter !== b.chapter) {
+      if (a.chapter === undefined) return 1;
+      if (b.chapter === undefined) return -1;
+      return a.chapter - b.chapter;
+    }
+    if (a.date !== b.date) {
+      if (!a.date) return 1;
+      if (!b.date) return -1;
+      return compareText(a.date, b.date);
+    }
+    return a.createdAt - b.createdAt;
+  });
+
+export interface TimelineFilter {
+  characterId?: string;
+  placeId?: string;
+}
+
+export const filterEvents = (events: StoryEvent[], { characterId, placeId }: TimelineFilter): StoryEvent[] =>
+  events.filter(e =>
+    (!characterId || e.characterIds.includes(characterId)) && (!placeId || e.placeId === placeId)
+  );
+
+// "Ch. 4 · Spring, Year 3", "Ch. 4", "Spring, Year 3" or null
+export const formatEventWhen = (event: StoryEvent): string | null => {
+  const parts = [event.chapter !== undefined ? `Ch. ${event.chapter}` : null, event.date || null];
+  const when = parts.filter(Boolean).join(' · ');
+  return when || null;
+};
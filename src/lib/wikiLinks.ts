@@ -0,0 +1,59 @@
+import { Character, Place } from '@/types/novel';
+import { getAliasNames } from '@/lib/aliases';
+
+// Matches [[Name]] — the name may not contain brackets or span lines
+export const WIKI_LINK_PATTERN = /\[\[([^[\]\n]+?)\]\]/g;
+
+export type WikiLinkTarget =
+  | { type: 'character'; id: string; name: string }
+  | { type: 'place'; id: string; name: string };
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+export const extractWikiLinks = (content: string): string[] => {
+  const names: string[] = [];
+  for (const match of content.matchAll(WIKI_LINK_PATTERN)) {
+    names.push(match[1].trim());
+  }
+  return names;
+};
+
+// Characters win over places when both share a name, and a character's own
+// name wins over another character's alias
+export const resolveWikiLink = (
+  name: string,
+  characters: Character[],
+  places: Place[]
+): WikiLinkTarget | undefined => {
+  const key = normalize(name);
+  const character = characters.find(c => normalize(c.name) === key)
+    ?? characters.find(c => getAliasNames(c).some(alias => normalize(alias) === key));
+  if (character) return { type: 'character', id: character.id, name: character.name };
+  const place = places.find(p => normalize(p.name) === key);
+  if (place) return { type: 'place', id: place.id, name: place.name };
+  return undefined;
+};
+
+export const getWikiLinkIds = (
+  content: string,
+  characters: Character[],
+  places: Place[]
+): { linkedCharacterIds: string[]; linkedPlaceIds: string[] } => {
+  const linkedCharacterIds = new Set<string>();
+  const linkedPlaceIds = new Set<string>();
+
+  for (const name of extractWikiLinks(content)) {
+    const target = resolveWikiLink(name, characters, places);
+    if (target?.type === 'character') linkedCharacterIds.add(target.id);
+    if (target?.type === 'place') linkedPlaceIds.add(target.id);
+  }
+
+  return {
+    linkedCharacterIds: [...linkedCharacterIds],
+    linkedPlaceIds: [...linkedPlaceIds],
+  };
+};
+
+// Plain-text rendering for previews: [[Name]] -> Name
+export const stripWikiLinks = (content: string): string =>
+  content.replace(WIKI_LINK_PATTERN, (_, name: string) => name.trim());
@@ -3,24 +3,90 @@ export interface Novel {
   title: string;
   author?: string;
   coverImage?: string;
+  readingProgress?: ReadingProgress;
+  spoilerMode?: SpoilerMode;
+  characterFields?: CustomFieldDef[]; // Custom attributes for characters
+  placeFields?: CustomFieldDef[]; // Custom attributes for places
+  imageSettings?: ImageSettings; // How uploads are compressed
   createdAt: number;
   updatedAt: number;
 }
 
+export interface ReadingProgress {
+  volume?: number; // For novels whose chapter numbers restart each volume
+  chapter: number;
+  page?: number;
+}
+
+// How entries introduced after the reader's current chapter are shown
+export type SpoilerMode = 'blur' | 'hide' | 'off';
+
+export interface ImageSettings {
+  maxDimension: number; // Longest side in pixels; 0 keeps the original size
+  quality: number; // 0-1, for lossy formats
+}
+
 export interface Character {
   id: string;
   novelId: string;
   name: string;
   description: string;
   images: string[];
-  tags: CharacterTag[];
-  linkedCharacterIds: string[];
+  captions?: ImageCaptions;
+  tags: string[]; // Tag ids
+  linkedCharacterIds: string[]; // Always empty since version 14; relationships replaced these links
   linkedPlaceIds: string[];
+  aliases?: CharacterAlias[]; // absent on characters created before aliases existed
+  attributes?: Record<string, CustomFieldValue>; // Novel's characterFields id -> value
+  statusHistory?: CharacterStatusChange[]; // In story order; absent means never recorded
+  introducedInChapter?: number;
   createdAt: number;
   updatedAt: number;
 }
 
-export type CharacterTag = 'mc' | 'villain' | 'ally' | 'mentor' | 'love-interest' | 'side' | 'custom';
+export type CharacterStatus = 'alive' | 'injured' | 'missing' | 'captured' | 'dead' | 'resurrected';
+
+// A status that holds from its chapter until the next change
+export interface CharacterStatusChange {
+  status: CharacterStatus;
+  chapter?: number; // Unset means from the start of the story
+  note?: string;
+}
+
+// Another name a character goes by: a title, a nickname, a translated or romanised form...
+export interface CharacterAlias {
+  name: string;
+  type?: AliasType;
+  language?: string; // Free text, e.g. "Japanese" or "zh"
+}
+
+export type AliasType = 'title' | 'nickname' | 'birth-name' | 'translation' | 'romanisation' | 'spelling' | 'other';
+
+// Tags are defined per novel; characters, places and notes refer to them by id
+export interface Tag {
+  id: string;
+  novelId: string;
+  name: string;
+  color: string; // hex, e.g. #ee9d2b
+  icon?: TagIcon;
+  order: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TagIcon =
+  | 'star'
+  | 'skull'
+  | 'shield'
+  | 'graduation-cap'
+  | 'heart'
+  | 'user'
+  | 'crown'
+  | 'sword'
+  | 'sparkles'
+  | 'flame'
+  | 'eye'
+  | 'ghost';
 
 export interface Place {
   id: string;
@@ -28,7 +94,12 @@ export interface Place {
   name: string;
   description: string;
   images: string[];
+  captions?: ImageCaptions;
+  tags: string[];
+  parentPlaceId?: string; // The place this one lies within
   linkedCharacterIds: string[];
+  attributes?: Record<string, CustomFieldValue>; // Novel's placeFields id -> value
+  introducedInChapter?: number;
   createdAt: number;
   updatedAt: number;
 }
@@ -38,12 +109,212 @@ export interface Note {
   novelId: string;
   title: string;
   content: string;
+  tags: string[];
   linkedCharacterIds: string[];
   linkedPlaceIds: string[];
+  introducedInChapter?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A guild, house, army, sect... Factions can nest under a parent faction.
+export interface Faction {
+  id: string;
+  novelId: string;
+  name: string;
+  description: string;
+  images: string[];
+  captions?: ImageCaptions;
+  parentFactionId?: string;
+  headquartersPlaceId?: string;
+  members: FactionMember[];
+  introducedInChapter?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface FactionMember {
+  characterId: string;
+  role?: string; // e.g. "Spymaster"
+  rank?: string; // e.g. "Re'lar"
+}
+
+// A sword, relic, ring or MacGuffin, with who held it and where it was over the story
+export interface Item {
+  id: string;
+  novelId: string;
+  name: string;
+  description: string;
+  images: string[];
+  captions?: ImageCaptions;
+  owners: ItemOwner[]; // In story order
+  locations: ItemLocation[]; // In story order
+  introducedInChapter?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ItemOwner {
+  characterId: string;
+  acquiredInChapter?: number;
+  lostInChapter?: number; // Unset while they still hold it
+  note?: string;
+}
+
+export interface ItemLocation {
+  placeId: string;
+  fromChapter?: number;
+  toChapter?: number; // Unset while it is still there
+  note?: string;
+}
+
+// An invented word from the story: a magic system, a rank, a currency...
+export interface GlossaryTerm {
+  id: string;
+  novelId: string;
+  term: string;
+  definition: string;
+  category?: string; // Free text, e.g. "Cultivation realm"
+  pronunciation?: string; // e.g. "SHEE-ahn-shah"
+  introducedInChapter?: number; // First appearance
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A user-defined kind of entry (spells, ships, deities...) with its own fields
+export interface CustomEntityType {
+  id: string;
+  novelId: string;
+  name: string; // Singular, e.g. "Spell"
+  pluralName: string; // Tab title, e.g. "Spells"
+  fields: CustomFieldDef[];
+  order: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean' | 'entity-link' | 'image';
+
+// What an entity-link field points at; 'custom' uses linkTypeId
+export type CustomLinkTarget = 'character' | 'place' | 'faction' | 'item' | 'custom';
+
+export interface CustomFieldDef {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // select
+  linkTarget?: CustomLinkTarget; // entity-link
+  linkTypeId?: string; // entity-link to another custom type
+}
+
+// text, date (YYYY-MM-DD) and select hold a string, number a number,
+// boolean a boolean, entity-link and image hold ids
+export type CustomFieldValue = string | number | boolean | string[];
+
+export interface CustomEntity {
+  id: string;
+  novelId: string;
+  typeId: string;
+  name: string;
+  values: Record<string, CustomFieldValue>; // Field id -> value
+  captions?: ImageCaptions; // For images in any of its image fields
+  introducedInChapter?: number;
   createdAt: number;
   updatedAt: number;
 }
 
+// A map image with places pinned on it; a novel can have several (world, city...)
+export interface WorldMap {
+  id: string;
+  novelId: string;
+  name: string;
+  imageId: string;
+  pins: MapPin[];
+  order: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MapPin {
+  placeId: string;
+  x: number; // Fraction of the image width, 0 to 1
+  y: number; // Fraction of the image height, 0 to 1
+}
+
+export interface Chapter {
+  id: string;
+  novelId: string;
+  number: number;
+  title: string;
+  summary: string;
+  volume?: number;
+  characterIds: string[]; // Characters appearing in the chapter
+  placeIds: string[]; // Places appearing in the chapter
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A plot event on the in-story timeline. Named StoryEvent to stay clear of the DOM's Event.
+export interface StoryEvent {
+  id: string;
+  novelId: string;
+  title: string;
+  description: string;
+  date?: string; // In-world date, free text (e.g. "Spring, Year 3")
+  chapter?: number;
+  characterIds: string[]; // Participants
+  placeId?: string; // Where it happened
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type RelationshipType =
+  | 'related'
+  | 'parent'
+  | 'sibling'
+  | 'spouse'
+  | 'betrothed'
+  | 'romantic'
+  | 'friend'
+  | 'ally'
+  | 'rival'
+  | 'enemy'
+  | 'mentor'
+  | 'serves'
+  | 'other';
+
+export interface Relationship {
+  id: string;
+  novelId: string;
+  sourceId: string;
+  targetId: string;
+  type: RelationshipType;
+  label?: string;
+  directional: boolean;
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Image id -> caption. Captions belong to the record showing the image, as
+// the same stored image can be used by several records.
+export type ImageCaptions = Record<string, string>;
+
+// An image as kept in IndexedDB. Dimensions and the thumbnail are filled in
+// when the image is saved, or on first use for migrated and imported images.
+// Images are keyed by a hash of their content, so one stored image can be
+// used by many records; `refs` counts those uses.
+export interface StoredImage {
+  id: string;
+  blob: Blob;
+  refs: number;
+  type: string; // MIME type
+  width?: number;
+  height?: number;
+  thumbnail?: Blob; // Absent when the image is already thumbnail-sized
+  createdAt: number;
+}
+
 export interface ExportData {
   version: string;
   exportedAt: number;
@@ -51,8 +322,88 @@ export interface ExportData {
   characters: Character[];
   places: Place[];
   notes: Note[];
-  images: { [key: string]: string }; // id -> base64 data
+  relationships?: Relationship[]; // absent in 1.0 backups
+  tags?: Tag[]; // absent before 1.2; characters then use the old built-in tag names
+  chapters?: Chapter[]; // absent before 1.3
+  events?: StoryEvent[]; // absent before 1.4
+  factions?: Faction[]; // absent before 1.5
+  items?: Item[]; // absent before 1.6
+  glossary?: GlossaryTerm[]; // absent before 1.7
+  customTypes?: CustomEntityType[]; // absent before 1.8
+  customEntities?: CustomEntity[]; // absent before 1.8
+  maps?: WorldMap[]; // absent before 1.9
+  images: { [key: string]: string }; // id -> data URL
+  imageCaptions?: { [key: string]: string }; // only in 1.10; later backups keep captions on the records
+}
+
+export type IntegrityIssueKind =
+  | 'dangling-link'
+  | 'one-way-link'
+  | 'dangling-relationship'
+  | 'dangling-appearance'
+  | 'dangling-participant'
+  | 'dangling-member'
+  | 'dangling-holder'
+  | 'dangling-field-link'
+  | 'dangling-pin'
+  | 'missing-image'
+  | 'orphaned-image';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  message: string;
+}
+
+export interface IntegrityReport {
+  issues: IntegrityIssue[];
+  repaired: boolean;
+}
+
+// Everything the command palette searches through
+export interface SearchLibrary {
+  novels: Novel[];
+  characters: Character[];
+  places: Place[];
+  notes: Note[];
+}
+
+export type SearchResultType = 'novel' | 'character' | 'place' | 'note';
+
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  novelId: string;
+  title: string;
+  subtitle: string; // Novel title, or author for novels
+  matchedAlias?: string;
+  snippet?: SearchSnippet;
+  score: number;
+}
+
+// Besides the fixed sorts, lists can sort by a custom attribute ("field:<id>")
+export type ListSort = 'name' | 'created' | 'updated' | 'connected' | `field:${string}`;
+
+// Toolbar state for the character, place and note lists on the dashboard
+export interface ListFilters {
+  query: string;
+  tagId?: string;
+  hasImages: boolean;
+  hasLinks: boolean;
+  field?: ListFieldFilter;
+  sort: ListSort;
+}
+
+// Keeps entries whose attribute is set ('*') or equals the value
+export interface ListFieldFilter {
+  fieldId: string;
+  value: string; // '*', a select option, or 'true'/'false'
 }
 
 export type ViewMode = 'grid' | 'list';
-export type TabType = 'characters' | 'places' | 'notes';
+export type TabType = 'characters' | 'places' | 'notes' | 'factions' | 'items' | 'glossary' | 'chapters' | 'timeline' | 'graph' | 'family' | 'maps';